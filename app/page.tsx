@@ -1,17 +1,34 @@
 'use client';
 
-import React, { useRef, useState, useCallback } from 'react';
+import React, { useRef, useState, useCallback, useMemo } from 'react';
 import dynamic from 'next/dynamic';
 import { MapViewRef } from '@/components/MapView';
 import { FileUploader } from '@/components/FileUploader';
 import { TrackCustomizer } from '@/components/TrackCustomizer';
 import { PhotoUploader } from '@/components/PhotoUploader';
 import { PhotoList } from '@/components/PhotoList';
+import { PhotoGeotagger } from '@/components/PhotoGeotagger';
+import { WaypointList } from '@/components/WaypointList';
+import { ElevationProfile } from '@/components/ElevationProfile';
+import { ElevationSmoothingSettings } from '@/components/ElevationSmoothingSettings';
+import { TrackEditPreview } from '@/components/TrackEditTools';
+import { TrackOutlierPreview } from '@/components/TrackOutlierTools';
 import { ExportButton } from '@/components/ExportButton';
+import { DataExportButton } from '@/components/DataExportButton';
 import { useTracks } from '@/hooks/use-tracks';
 import { usePhotos } from '@/hooks/use-photos';
-import { parseGPXFile } from '@/lib/gpx-parser';
-import { Map, Menu, X, FileText, Camera } from 'lucide-react';
+import { useWaypoints } from '@/hooks/use-waypoints';
+import { useEditHistory } from '@/hooks/use-edit-history';
+import { parseTrackFile, TRACK_FILE_EXTENSIONS } from '@/lib/track-parser';
+import { TrackParseOptions } from '@/lib/gpx-parser';
+import { toGeoJSON } from '@/lib/geojson';
+import { toGPX } from '@/lib/gpx-writer';
+import { toGeotaggedPhotoZip } from '@/lib/exif-writer';
+import { getExportDateStamp } from '@/lib/download';
+import { buildTrackProfile, findNearestProfileIndex } from '@/lib/track-profile';
+import { DEFAULT_ELEVATION_SMOOTHING } from '@/lib/elevation-smoothing';
+import { Climb } from '@/lib/climb-detection';
+import { Map, Menu, X, FileText, Camera, PauseCircle, Undo2, Redo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 
@@ -32,13 +49,30 @@ export default function Home() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<'tracks' | 'photos'>('tracks');
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null);
+  const [hoveredProfileIndex, setHoveredProfileIndex] = useState<number | null>(null);
+  const [showStops, setShowStops] = useState(false);
+  const [editPreview, setEditPreview] = useState<TrackEditPreview | null>(null);
+  const [outlierPreview, setOutlierPreview] = useState<TrackOutlierPreview | null>(null);
+  const [snapPhotosToTracks, setSnapPhotosToTracks] = useState(false);
+  const [selectedClimb, setSelectedClimb] = useState<{ trackId: string; climb: Climb } | null>(null);
   const {
     tracks,
+    statsOptions,
     addTrack,
     removeTrack,
     updateTrackStyle,
     toggleTrackVisibility,
     clearAllTracks,
+    restoreTracks,
+    updateStatsOptions,
+    trimTrack,
+    splitTrack,
+    splitTrackByTimeGap,
+    splitTrackByDay,
+    mergeTracks,
+    simplifyTrack,
+    removeTrackPoints,
   } = useTracks();
   const {
     photos,
@@ -46,24 +80,89 @@ export default function Home() {
     addMultiplePhotos,
     removePhoto,
     togglePhotoVisibility,
+    setPhotoLocations,
     clearAllPhotos,
+    restorePhotos,
   } = usePhotos();
+  const {
+    waypoints,
+    addWaypoints,
+    removeWaypoint,
+    toggleWaypointVisibility,
+    clearAllWaypoints,
+    restoreWaypoints,
+  } = useWaypoints();
+
+  const historyState = useMemo(
+    () => ({ tracks, statsOptions, photos, waypoints }),
+    [tracks, statsOptions, photos, waypoints]
+  );
+  const restoreHistoryState = useCallback((snapshot: typeof historyState) => {
+    restoreTracks(snapshot.tracks, snapshot.statsOptions);
+    restorePhotos(snapshot.photos);
+    restoreWaypoints(snapshot.waypoints);
+  }, [restoreTracks, restorePhotos, restoreWaypoints]);
+  const { undo, redo, canUndo, canRedo } = useEditHistory(historyState, restoreHistoryState);
 
-  const handleFileUpload = useCallback(async (file: File) => {
+  const handleFileUpload = useCallback(async (file: File, options: TrackParseOptions) => {
     try {
-      const parsedTracks = await parseGPXFile(file);
+      const { tracks: parsedTracks, waypoints: parsedWaypoints } = await parseTrackFile(file, { ...options, statsOptions });
       parsedTracks.forEach(track => {
         addTrack({
           name: track.name,
           segments: track.segments,
+          laps: track.laps,
+          style: track.style,
           stats: track.stats,
         });
       });
+      if (parsedWaypoints.length > 0) {
+        addWaypoints(parsedWaypoints);
+      }
     } catch (error) {
-      console.error('Error parsing GPX file:', error);
+      console.error('Error parsing track file:', error);
       throw error;
     }
-  }, [addTrack]);
+  }, [addTrack, addWaypoints, statsOptions]);
+
+  const selectedTrack = tracks.find(t => t.id === selectedTrackId);
+  const selectedProfile = useMemo(
+    () => (selectedTrack ? buildTrackProfile(selectedTrack) : []),
+    [selectedTrack]
+  );
+  const highlightedPoint = hoveredProfileIndex !== null
+    ? selectedProfile[hoveredProfileIndex]?.point ?? null
+    : null;
+
+  const highlightedClimb = selectedClimb && tracks.some(t => t.id === selectedClimb.trackId && t.visible)
+    ? selectedClimb.climb
+    : null;
+
+  const handleExportPhotos = useCallback(async () => {
+    const { blob, failedPhotos } = await toGeotaggedPhotoZip(photos.filter(p => p.visible));
+    return {
+      blob,
+      warning: failedPhotos.length > 0
+        ? `Couldn't write the location to ${failedPhotos.join(', ')}; ${failedPhotos.length === 1 ? 'it was' : 'they were'} included unchanged`
+        : undefined,
+    };
+  }, [photos]);
+
+  const handleSelectClimb = useCallback((trackId: string, climb: Climb | null) => {
+    setSelectedClimb(climb ? { trackId, climb } : null);
+  }, []);
+
+  const handleSelectTrack = useCallback((trackId: string | null) => {
+    setSelectedTrackId(trackId);
+    setHoveredProfileIndex(null);
+  }, []);
+
+  const handleTrackHover = useCallback((trackId: string, lat: number, lon: number) => {
+    if (trackId !== selectedTrackId) return;
+    setHoveredProfileIndex(findNearestProfileIndex(selectedProfile, lat, lon));
+  }, [selectedTrackId, selectedProfile]);
+
+  const hasVisibleData = tracks.some(t => t.visible) || waypoints.some(w => w.visible);
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
@@ -82,6 +181,26 @@ export default function Home() {
         </div>
         
         <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={undo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="h-5 w-5" />
+          </Button>
+          
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={redo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="h-5 w-5" />
+          </Button>
+          
           <Button
             variant="ghost"
             size="sm"
@@ -141,26 +260,56 @@ export default function Home() {
             {activeTab === 'tracks' ? (
               <>
                 <Card className="p-4">
-                  <h2 className="text-lg font-semibold mb-3">Upload GPX File</h2>
-                  <FileUploader onFileUpload={handleFileUpload} />
+                  <h2 className="text-lg font-semibold mb-3">Upload Track Files</h2>
+                  <FileUploader
+                    onFileUpload={handleFileUpload}
+                    acceptedFormats={TRACK_FILE_EXTENSIONS}
+                  />
                 </Card>
 
                 <Card className="p-4">
                   <div className="flex items-center justify-between mb-3">
                     <h2 className="text-lg font-semibold">Tracks</h2>
                     {tracks.length > 0 && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={clearAllTracks}
-                        className="text-xs text-destructive hover:text-destructive"
-                      >
-                        Clear All
-                      </Button>
+                      <div className="flex items-center space-x-1">
+                        {tracks.some(t => t.stats?.stops?.length) && (
+                          <Button
+                            variant={showStops ? 'secondary' : 'ghost'}
+                            size="sm"
+                            onClick={() => setShowStops(!showStops)}
+                            className="text-xs"
+                          >
+                            <PauseCircle className="h-3 w-3 mr-1" />
+                            {showStops ? 'Hide Stops' : 'Show Stops'}
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={clearAllTracks}
+                          className="text-xs text-destructive hover:text-destructive"
+                        >
+                          Clear All
+                        </Button>
+                      </div>
                     )}
                   </div>
                   <TrackCustomizer
                     tracks={tracks}
+                    selectedTrackId={selectedTrackId}
+                    onSelectTrack={handleSelectTrack}
+                    elevationSmoothing={statsOptions.elevationSmoothing}
+                    selectedClimb={selectedClimb}
+                    onSelectClimb={handleSelectClimb}
+                    onTrimTrack={trimTrack}
+                    onSplitTrack={splitTrack}
+                    onSplitTrackByTimeGap={splitTrackByTimeGap}
+                    onSplitTrackByDay={splitTrackByDay}
+                    onMergeTracks={mergeTracks}
+                    onEditPreviewChange={setEditPreview}
+                    onSimplifyTrack={simplifyTrack}
+                    onRemoveTrackPoints={removeTrackPoints}
+                    onOutlierPreviewChange={setOutlierPreview}
                     onUpdateTrackStyle={updateTrackStyle}
                     onToggleVisibility={toggleTrackVisibility}
                     onRemoveTrack={removeTrack}
@@ -168,9 +317,53 @@ export default function Home() {
                 </Card>
 
                 {tracks.length > 0 && (
+                  <ElevationSmoothingSettings
+                    options={statsOptions.elevationSmoothing ?? DEFAULT_ELEVATION_SMOOTHING}
+                    onChange={(elevationSmoothing) => updateStatsOptions({ elevationSmoothing })}
+                  />
+                )}
+
+                {waypoints.length > 0 && (
+                  <WaypointList
+                    waypoints={waypoints}
+                    onRemoveWaypoint={removeWaypoint}
+                    onToggleVisibility={toggleWaypointVisibility}
+                    onClearAll={clearAllWaypoints}
+                  />
+                )}
+
+                {(tracks.length > 0 || waypoints.length > 0) && (
                   <Card className="p-4">
                     <h2 className="text-lg font-semibold mb-3">Export</h2>
-                    <ExportButton mapRef={mapRef} disabled={tracks.length === 0} />
+                    <div className="space-y-2">
+                      <ExportButton mapRef={mapRef} disabled={tracks.length === 0 && waypoints.length === 0} />
+                      <DataExportButton
+                        label="Export as GPX"
+                        fileName={`gpx-tracks-${getExportDateStamp()}.gpx`}
+                        createBlob={() => new Blob(
+                          [toGPX(
+                            tracks.filter(t => t.visible),
+                            photos.filter(p => p.visible),
+                            waypoints.filter(w => w.visible)
+                          )],
+                          { type: 'application/gpx+xml' }
+                        )}
+                        disabled={!hasVisibleData}
+                      />
+                      <DataExportButton
+                        label="Export as GeoJSON"
+                        fileName={`gpx-tracks-${getExportDateStamp()}.geojson`}
+                        createBlob={() => new Blob(
+                          [JSON.stringify(toGeoJSON(
+                            tracks.filter(t => t.visible),
+                            photos.filter(p => p.visible),
+                            waypoints.filter(w => w.visible)
+                          ), null, 2)],
+                          { type: 'application/geo+json' }
+                        )}
+                        disabled={!hasVisibleData}
+                      />
+                    </div>
                   </Card>
                 )}
               </>
@@ -179,8 +372,8 @@ export default function Home() {
                 <Card className="p-4">
                   <h2 className="text-lg font-semibold mb-3">Upload Photos</h2>
                   <PhotoUploader 
-                    onPhotosUpload={async (files) => {
-                      await addMultiplePhotos(files);
+                    onPhotosUpload={async (files, options) => {
+                      await addMultiplePhotos(files, options);
                     }}
                     isProcessing={isProcessing}
                   />
@@ -192,9 +385,23 @@ export default function Home() {
                       photos={photos}
                       onRemovePhoto={removePhoto}
                       onToggleVisibility={togglePhotoVisibility}
+                      snapToTracks={snapPhotosToTracks}
+                      onSnapToTracksChange={setSnapPhotosToTracks}
+                    />
+
+                    <PhotoGeotagger
+                      photos={photos}
+                      tracks={tracks.filter(t => t.visible)}
+                      onApply={setPhotoLocations}
                     />
                     
-                    <Card className="p-4">
+                    <Card className="p-4 space-y-2">
+                      <DataExportButton
+                        label="Download Geotagged Photos"
+                        fileName={`photos-geotagged-${getExportDateStamp()}.zip`}
+                        createBlob={handleExportPhotos}
+                        disabled={!photos.some(p => p.visible && p.location)}
+                      />
                       <Button
                         variant="outline"
                         size="sm"
@@ -211,7 +418,7 @@ export default function Home() {
           </div>
         </aside>
 
-        <main className="flex-1 relative">
+        <main className="flex-1 relative flex flex-col min-w-0">
           {isMobileMenuOpen && (
             <div
               className="absolute inset-0 bg-black/50 z-10 lg:hidden"
@@ -219,9 +426,37 @@ export default function Home() {
             />
           )}
           
-          <div className="w-full h-full">
-            <MapView ref={mapRef} tracks={tracks} photos={photos} />
+          <div className="w-full flex-1 min-h-0">
+            <MapView
+              ref={mapRef}
+              tracks={tracks}
+              photos={photos}
+              waypoints={waypoints}
+              highlightedPoint={highlightedPoint}
+              highlightedPath={highlightedClimb?.points}
+              editPreview={editPreview}
+              flaggedPoints={outlierPreview?.outliers}
+              elevationSmoothing={statsOptions.elevationSmoothing}
+              showStops={showStops}
+              onTrackClick={handleSelectTrack}
+              onTrackHover={handleTrackHover}
+              onTrackHoverEnd={() => setHoveredProfileIndex(null)}
+              onPhotoLocationChange={(photoId, location) => setPhotoLocations([{ photoId, location }])}
+              snapPhotosToTracks={snapPhotosToTracks}
+            />
           </div>
+
+          {selectedTrack && (
+            <ElevationProfile
+              profile={selectedProfile}
+              trackName={selectedTrack.name}
+              color={selectedTrack.style.color}
+              highlightedIndex={hoveredProfileIndex}
+              selectedRange={editPreview?.trackId === selectedTrack.id ? editPreview.range : null}
+              onHoverIndex={setHoveredProfileIndex}
+              onClose={() => handleSelectTrack(null)}
+            />
+          )}
         </main>
       </div>
     </div>
@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { Track } from '@/types/track';
+import { buildTrackProfile } from '@/lib/track-profile';
+import { Climb, detectClimbs, getClimbCategoryLabel } from '@/lib/climb-detection';
+import { ElevationSmoothingOptions } from '@/lib/elevation-smoothing';
+import { formatDistance } from '@/lib/gpx-parser';
+import { cn } from '@/lib/utils';
+
+interface ClimbListProps {
+  track: Track;
+  elevationSmoothing?: ElevationSmoothingOptions;
+  selectedClimb?: Climb | null;
+  onSelectClimb: (climb: Climb | null) => void;
+}
+
+const CATEGORY_COLORS: Record<Climb['category'], string> = {
+  HC: 'bg-red-700 text-white',
+  '1': 'bg-red-500 text-white',
+  '2': 'bg-orange-500 text-white',
+  '3': 'bg-amber-400 text-gray-900',
+  '4': 'bg-yellow-200 text-gray-900',
+};
+
+export function ClimbList({ track, elevationSmoothing, selectedClimb, onSelectClimb }: ClimbListProps) {
+  const climbs = useMemo(
+    () => detectClimbs(buildTrackProfile(track), elevationSmoothing),
+    [track, elevationSmoothing]
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Climbs ({climbs.length})</Label>
+      {climbs.length === 0 ? (
+        <p className="text-xs text-gray-500">No categorized climbs found.</p>
+      ) : (
+        <div className="space-y-1">
+          {climbs.map((climb, index) => {
+            const isSelected = selectedClimb?.startDistance === climb.startDistance &&
+              selectedClimb?.endDistance === climb.endDistance;
+
+            return (
+              <button
+                key={index}
+                type="button"
+                onClick={() => onSelectClimb(isSelected ? null : climb)}
+                className={cn(
+                  'w-full text-left p-2 rounded-md bg-white border text-xs hover:bg-gray-100 transition-colors',
+                  isSelected && 'ring-2 ring-primary'
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={cn('px-1.5 py-0.5 rounded font-semibold', CATEGORY_COLORS[climb.category])}>
+                    {getClimbCategoryLabel(climb.category)}
+                  </span>
+                  <span className="text-gray-500">
+                    {formatDistance(climb.startDistance)} – {formatDistance(climb.endDistance)}
+                  </span>
+                </div>
+                <div className="mt-1 grid grid-cols-2 gap-1 text-gray-600">
+                  <div>Length: {formatDistance(climb.length)}</div>
+                  <div>↑ {climb.elevationGain.toFixed(0)}m</div>
+                  <div>Avg: {climb.averageGradient.toFixed(1)}%</div>
+                  <div>Max: {climb.maxGradient.toFixed(1)}%</div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/download';
+
+export interface ExportResult {
+  blob: Blob;
+  // A problem that didn't stop the export, shown instead of the usual confirmation
+  warning?: string;
+}
+
+interface DataExportButtonProps {
+  label: string;
+  fileName: string;
+  createBlob: () => Blob | ExportResult | Promise<Blob | ExportResult>;
+  disabled?: boolean;
+}
+
+export function DataExportButton({ label, fileName, createBlob, disabled = false }: DataExportButtonProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await createBlob();
+      const { blob, warning } = result instanceof Blob ? { blob: result, warning: undefined } : result;
+      downloadBlob(blob, fileName);
+
+      toast({
+        title: warning ? "Exported with problems" : "Export successful",
+        description: warning ?? `${fileName} has been downloaded`,
+        variant: warning ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export the data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      onClick={handleExport}
+      disabled={disabled || isExporting}
+      className="w-full"
+    >
+      <FileDown className="mr-2 h-4 w-4" />
+      {isExporting ? 'Exporting...' : label}
+    </Button>
+  );
+}
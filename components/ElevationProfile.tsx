@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useMemo, useState, useCallback } from 'react';
+import { X, Mountain } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ProfilePoint, findProfileIndexByValue } from '@/lib/track-profile';
+import { formatDistance, formatDuration } from '@/lib/gpx-parser';
+
+interface ElevationProfileProps {
+  profile: ProfilePoint[];
+  trackName: string;
+  color: string;
+  highlightedIndex: number | null;
+  // Profile indexes of a pending trim; everything outside is shaded
+  selectedRange?: [number, number] | null;
+  onHoverIndex: (index: number | null) => void;
+  onClose: () => void;
+}
+
+type ProfileAxis = 'distance' | 'time';
+
+const VIEWBOX_WIDTH = 1000;
+const VIEWBOX_HEIGHT = 100;
+// Large tracks are thinned for drawing; hover lookups still use every sample
+const MAX_RENDERED_POINTS = 1000;
+
+const getAxisValue = (axis: ProfileAxis) => (sample: ProfilePoint) =>
+  axis === 'distance' ? sample.distance : sample.elapsed;
+
+export function ElevationProfile({
+  profile,
+  trackName,
+  color,
+  highlightedIndex,
+  selectedRange,
+  onHoverIndex,
+  onClose,
+}: ElevationProfileProps) {
+  const [axis, setAxis] = useState<ProfileAxis>('distance');
+  const hasTime = profile.some(sample => sample.elapsed !== undefined);
+  const activeAxis: ProfileAxis = hasTime ? axis : 'distance';
+  const getX = getAxisValue(activeAxis);
+
+  const bounds = useMemo(() => {
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minEle = Infinity;
+    let maxEle = -Infinity;
+
+    profile.forEach(sample => {
+      const x = getAxisValue(activeAxis)(sample);
+      if (x !== undefined) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+      }
+      if (sample.point.ele !== undefined) {
+        minEle = Math.min(minEle, sample.point.ele);
+        maxEle = Math.max(maxEle, sample.point.ele);
+      }
+    });
+
+    if (!isFinite(minEle) || !isFinite(minX)) {
+      return null;
+    }
+
+    // Pad the elevation range so flat tracks don't render as a line on the edge
+    const padding = Math.max((maxEle - minEle) * 0.1, 5);
+    return {
+      minX,
+      maxX,
+      minEle,
+      maxEle,
+      lowerEle: minEle - padding,
+      upperEle: maxEle + padding,
+    };
+  }, [profile, activeAxis]);
+
+  const toSvgX = useCallback((value: number) => {
+    if (!bounds || bounds.maxX === bounds.minX) return 0;
+    return ((value - bounds.minX) / (bounds.maxX - bounds.minX)) * VIEWBOX_WIDTH;
+  }, [bounds]);
+
+  const toSvgY = useCallback((ele: number) => {
+    if (!bounds) return VIEWBOX_HEIGHT;
+    return VIEWBOX_HEIGHT - ((ele - bounds.lowerEle) / (bounds.upperEle - bounds.lowerEle)) * VIEWBOX_HEIGHT;
+  }, [bounds]);
+
+  const paths = useMemo(() => {
+    if (!bounds) return { line: '', area: '' };
+
+    const step = Math.max(1, Math.ceil(profile.length / MAX_RENDERED_POINTS));
+    const runs: string[][] = [];
+    let currentRun: string[] = [];
+
+    for (let i = 0; i < profile.length; i += step) {
+      const sample = profile[i];
+      const x = getAxisValue(activeAxis)(sample);
+      if (x === undefined || sample.point.ele === undefined) {
+        // Missing elevation breaks the line rather than interpolating across it
+        if (currentRun.length > 0) runs.push(currentRun);
+        currentRun = [];
+        continue;
+      }
+      currentRun.push(`${toSvgX(x).toFixed(1)},${toSvgY(sample.point.ele).toFixed(1)}`);
+    }
+    if (currentRun.length > 0) runs.push(currentRun);
+
+    return {
+      line: runs.map(run => `M${run.join('L')}`).join(' '),
+      area: runs
+        .filter(run => run.length > 1)
+        .map(run => {
+          const firstX = run[0].split(',')[0];
+          const lastX = run[run.length - 1].split(',')[0];
+          return `M${firstX},${VIEWBOX_HEIGHT}L${run.join('L')}L${lastX},${VIEWBOX_HEIGHT}Z`;
+        })
+        .join(' '),
+    };
+  }, [profile, bounds, activeAxis, toSvgX, toSvgY]);
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!bounds) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    const value = bounds.minX + ratio * (bounds.maxX - bounds.minX);
+    onHoverIndex(findProfileIndexByValue(profile, value, getX));
+  };
+
+  const rangeStartX = selectedRange ? getX(profile[selectedRange[0]] ?? profile[0]) : undefined;
+  const rangeEndX = selectedRange ? getX(profile[selectedRange[1]] ?? profile[profile.length - 1]) : undefined;
+
+  const highlighted = highlightedIndex !== null ? profile[highlightedIndex] : undefined;
+  const highlightedX = highlighted ? getX(highlighted) : undefined;
+
+  return (
+    <div className="bg-white border-t border-gray-200 p-3 h-48 flex flex-col">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Mountain className="h-4 w-4 text-gray-500 flex-shrink-0" />
+          <h3 className="text-sm font-medium truncate">{trackName}</h3>
+          {bounds && (
+            <span className="text-xs text-gray-500 flex-shrink-0">
+              {bounds.minEle.toFixed(0)}–{bounds.maxEle.toFixed(0)}m
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-1">
+          <Button
+            variant={activeAxis === 'distance' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setAxis('distance')}
+            className="h-7 text-xs"
+          >
+            Distance
+          </Button>
+          <Button
+            variant={activeAxis === 'time' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setAxis('time')}
+            disabled={!hasTime}
+            className="h-7 text-xs"
+          >
+            Time
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-7 w-7 p-0"
+            title="Close elevation profile"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {bounds ? (
+        <div className="flex-1 flex flex-col min-h-0">
+          <div
+            className="relative flex-1 min-h-0 cursor-crosshair"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => onHoverIndex(null)}
+          >
+            <svg
+              viewBox={`0 0 ${VIEWBOX_WIDTH} ${VIEWBOX_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-full"
+            >
+              <path d={paths.area} fill={color} fillOpacity={0.15} />
+              <path
+                d={paths.line}
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+              {rangeStartX !== undefined && rangeEndX !== undefined && (
+                <>
+                  <rect x={0} y={0} width={toSvgX(rangeStartX)} height={VIEWBOX_HEIGHT} fill="#6b7280" fillOpacity={0.25} />
+                  <rect
+                    x={toSvgX(rangeEndX)}
+                    y={0}
+                    width={Math.max(VIEWBOX_WIDTH - toSvgX(rangeEndX), 0)}
+                    height={VIEWBOX_HEIGHT}
+                    fill="#6b7280"
+                    fillOpacity={0.25}
+                  />
+                </>
+              )}
+              {highlightedX !== undefined && (
+                <line
+                  x1={toSvgX(highlightedX)}
+                  x2={toSvgX(highlightedX)}
+                  y1={0}
+                  y2={VIEWBOX_HEIGHT}
+                  stroke="#1f2937"
+                  strokeWidth={1}
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+
+            {highlighted && highlightedX !== undefined && (
+              <div
+                className="absolute top-0 pointer-events-none bg-gray-900/80 text-white text-xs rounded px-2 py-1 whitespace-nowrap"
+                style={{
+                  left: `${(toSvgX(highlightedX) / VIEWBOX_WIDTH) * 100}%`,
+                  transform: toSvgX(highlightedX) > VIEWBOX_WIDTH / 2
+                    ? 'translateX(calc(-100% - 6px))'
+                    : 'translateX(6px)',
+                }}
+              >
+                {highlighted.point.ele !== undefined ? `${highlighted.point.ele.toFixed(0)}m` : 'No elevation'}
+                {' • '}
+                {formatDistance(highlighted.distance)}
+                {highlighted.elapsed !== undefined && ` • ${formatDuration(highlighted.elapsed)}`}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-between text-xs text-gray-400 mt-1">
+            <span>{activeAxis === 'distance' ? formatDistance(bounds.minX) : '0s'}</span>
+            <span>{activeAxis === 'distance' ? formatDistance(bounds.maxX) : formatDuration(bounds.maxX)}</span>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-sm text-gray-500">This track has no elevation data.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ElevationSmoothingOptions, DEFAULT_ELEVATION_SMOOTHING } from '@/lib/elevation-smoothing';
+
+interface ElevationSmoothingSettingsProps {
+  options: ElevationSmoothingOptions;
+  onChange: (options: ElevationSmoothingOptions) => void;
+}
+
+export function ElevationSmoothingSettings({ options, onChange }: ElevationSmoothingSettingsProps) {
+  // Sliders move the draft while dragging; stats are only recomputed once a value is committed
+  const [draft, setDraft] = useState(options);
+
+  useEffect(() => {
+    setDraft(options);
+  }, [options]);
+
+  const preview = (changes: Partial<ElevationSmoothingOptions>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const update = (changes: Partial<ElevationSmoothingOptions>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    onChange(next);
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold">Elevation Smoothing</h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => update(DEFAULT_ELEVATION_SMOOTHING)}
+          className="text-xs"
+        >
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label htmlFor="smoothing-window" className="text-xs">
+              Moving Average
+            </Label>
+            <span className="text-xs text-gray-500">
+              {draft.movingAverageWindow <= 1 ? 'Off' : `${draft.movingAverageWindow} points`}
+            </span>
+          </div>
+          <Slider
+            id="smoothing-window"
+            min={1}
+            max={21}
+            step={2}
+            value={[draft.movingAverageWindow]}
+            onValueChange={([value]) => preview({ movingAverageWindow: value })}
+            onValueCommit={([value]) => update({ movingAverageWindow: value })}
+            className="cursor-pointer"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label htmlFor="smoothing-hysteresis" className="text-xs">
+              Hysteresis
+            </Label>
+            <span className="text-xs text-gray-500">{draft.hysteresis}m</span>
+          </div>
+          <Slider
+            id="smoothing-hysteresis"
+            min={0}
+            max={10}
+            step={0.5}
+            value={[draft.hysteresis]}
+            onValueChange={([value]) => preview({ hysteresis: value })}
+            onValueCommit={([value]) => update({ hysteresis: value })}
+            className="cursor-pointer"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="smoothing-outliers" className="text-xs">
+              Outlier Rejection
+            </Label>
+            <Button
+              id="smoothing-outliers"
+              variant={draft.rejectOutliers ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => update({ rejectOutliers: !draft.rejectOutliers })}
+              className="h-7 text-xs"
+            >
+              {draft.rejectOutliers ? 'On' : 'Off'}
+            </Button>
+          </div>
+          {draft.rejectOutliers && (
+            <>
+              <div className="flex justify-between">
+                <span className="text-xs text-gray-500">Threshold</span>
+                <span className="text-xs text-gray-500">{draft.outlierThreshold}m</span>
+              </div>
+              <Slider
+                min={5}
+                max={100}
+                step={5}
+                value={[draft.outlierThreshold]}
+                onValueChange={([value]) => preview({ outlierThreshold: value })}
+                onValueCommit={([value]) => update({ outlierThreshold: value })}
+                className="cursor-pointer"
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
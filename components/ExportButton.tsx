@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import { Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { downloadBlob, getExportDateStamp } from '@/lib/download';
 import { MapViewRef } from './MapView';
 
 interface ExportButtonProps {
@@ -28,15 +29,7 @@ export function ExportButton({ mapRef, disabled = false }: ExportButtonProps) {
     setIsExporting(true);
     try {
       const blob = await mapRef.current.exportMap();
-      
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `gpx-track-map-${new Date().toISOString().split('T')[0]}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `gpx-track-map-${getExportDateStamp()}.png`);
 
       toast({
         title: "Export successful",
@@ -1,56 +1,143 @@
 'use client';
 
-import React, { useCallback, useState } from 'react';
-import { Upload, X, FileText } from 'lucide-react';
+import React, { useCallback, useRef, useState } from 'react';
+import { Upload, X, FileText, FolderOpen, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { collectDroppedFiles, expandZipArchives, getFileExtension } from '@/lib/file-collector';
+import { TrackParseOptions } from '@/lib/gpx-parser';
+import { TRACK_FILE_EXTENSIONS } from '@/lib/track-parser';
 
 interface FileUploaderProps {
-  onFileUpload: (file: File) => Promise<void>;
+  onFileUpload: (file: File, options: TrackParseOptions) => Promise<void>;
   acceptedFormats?: string[];
 }
 
+type UploadStatus = 'pending' | 'processing' | 'success' | 'error' | 'cancelled';
+
+interface UploadEntry {
+  id: string;
+  name: string;
+  size: number;
+  status: UploadStatus;
+  progress?: number;
+  error?: string;
+}
+
 export function FileUploader({ 
   onFileUpload, 
-  acceptedFormats = ['.gpx'] 
+  acceptedFormats = TRACK_FILE_EXTENSIONS
 }: FileUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [uploads, setUploads] = useState<UploadEntry[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
-  const handleFile = useCallback(async (file: File) => {
-    const fileExtension = `.${file.name.split('.').pop()?.toLowerCase()}`;
-    
-    if (!acceptedFormats.includes(fileExtension)) {
-      toast({
-        title: "Invalid file format",
-        description: `Please upload a GPX file. Accepted formats: ${acceptedFormats.join(', ')}`,
-        variant: "destructive",
-      });
-      return;
-    }
+  const updateUpload = useCallback((id: string, update: Partial<UploadEntry>) => {
+    setUploads(prev => prev.map(upload => upload.id === id ? { ...upload, ...update } : upload));
+  }, []);
 
+  const handleFiles = useCallback(async (selectedFiles: File[]) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setIsUploading(true);
     try {
-      await onFileUpload(file);
-      setUploadedFiles(prev => [...prev, file]);
-      toast({
-        title: "File uploaded successfully",
-        description: `${file.name} has been processed.`,
-      });
-    } catch (error) {
-      console.error('Upload error:', error);
-      toast({
-        title: "Upload failed",
-        description: error instanceof Error ? error.message : "Failed to process the file",
-        variant: "destructive",
-      });
+      let files: File[];
+      try {
+        files = await expandZipArchives(selectedFiles, acceptedFormats);
+      } catch (error) {
+        console.error('Archive error:', error);
+        toast({
+          title: "Upload failed",
+          description: error instanceof Error ? error.message : "Failed to read the archive",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const validFiles = files.filter(file => acceptedFormats.includes(getFileExtension(file.name)));
+      const skippedCount = files.length - validFiles.length;
+
+      if (validFiles.length === 0) {
+        toast({
+          title: "Invalid file format",
+          description: `Please upload a track file. Accepted formats: ${acceptedFormats.join(', ')}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const batchId = Date.now();
+      const entries: UploadEntry[] = validFiles.map((file, index) => ({
+        id: `upload-${batchId}-${index}`,
+        name: file.name,
+        size: file.size,
+        status: 'pending',
+      }));
+      setUploads(prev => [...prev, ...entries]);
+
+      const failures: { name: string; error: string }[] = [];
+      const { signal } = abortController;
+      const finishedIds = new Set<string>();
+
+      for (let i = 0; i < validFiles.length && !signal.aborted; i++) {
+        const entry = entries[i];
+        updateUpload(entry.id, { status: 'processing' });
+        try {
+          await onFileUpload(validFiles[i], {
+            onProgress: progress => updateUpload(entry.id, { progress }),
+            signal,
+          });
+          updateUpload(entry.id, { status: 'success', progress: 1 });
+          finishedIds.add(entry.id);
+        } catch (error) {
+          if (signal.aborted) break;
+          console.error('Upload error:', error);
+          const message = error instanceof Error ? error.message : "Failed to process the file";
+          failures.push({ name: entry.name, error: message });
+          updateUpload(entry.id, { status: 'error', error: message });
+          finishedIds.add(entry.id);
+        }
+      }
+
+      const successCount = finishedIds.size - failures.length;
+      const skippedNote = skippedCount > 0
+        ? ` ${skippedCount} unsupported file${skippedCount > 1 ? 's' : ''} skipped.`
+        : '';
+
+      if (signal.aborted) {
+        const batchIds = new Set(entries.map(entry => entry.id));
+        setUploads(prev => prev.map(upload => batchIds.has(upload.id) && !finishedIds.has(upload.id)
+          ? { ...upload, status: 'cancelled' }
+          : upload
+        ));
+        toast({
+          title: "Upload cancelled",
+          description: `${successCount} of ${validFiles.length} files processed before cancelling.`,
+        });
+      } else if (failures.length === 0) {
+        toast({
+          title: validFiles.length > 1 ? "Files uploaded successfully" : "File uploaded successfully",
+          description: validFiles.length > 1
+            ? `${successCount} files have been processed.${skippedNote}`
+            : `${validFiles[0].name} has been processed.${skippedNote}`,
+        });
+      } else {
+        toast({
+          title: successCount > 0 ? "Some files failed to upload" : "Upload failed",
+          description: validFiles.length > 1
+            ? `${successCount} of ${validFiles.length} files processed. Failed: ${failures.map(f => f.name).join(', ')}.${skippedNote}`
+            : failures[0].error,
+          variant: "destructive",
+        });
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsUploading(false);
     }
-  }, [acceptedFormats, onFileUpload, toast]);
+  }, [acceptedFormats, onFileUpload, toast, updateUpload]);
 
   const handleDragEnter = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -69,28 +156,47 @@ export function FileUploader({
     e.stopPropagation();
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
 
-    const files = Array.from(e.dataTransfer.files);
+    let files: File[];
+    try {
+      files = await collectDroppedFiles(e.dataTransfer);
+    } catch (error) {
+      console.error('Drop error:', error);
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to read the dropped files",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (files.length > 0) {
-      handleFile(files[0]);
+      handleFiles(files);
     }
-  }, [handleFile]);
+  }, [handleFiles, toast]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      handleFile(files[0]);
+      handleFiles(Array.from(files));
     }
-  }, [handleFile]);
+    e.target.value = '';
+  }, [handleFiles]);
 
-  const removeFile = useCallback((index: number) => {
-    setUploadedFiles(prev => prev.filter((_, i) => i !== index));
+  const removeUpload = useCallback((id: string) => {
+    setUploads(prev => prev.filter(upload => upload.id !== id));
   }, []);
 
+  const cancelUpload = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const completedCount = uploads.filter(u => u.status !== 'pending' && u.status !== 'processing').length;
+
   return (
     <div className="w-full space-y-4">
       <Card
@@ -111,8 +217,8 @@ export function FileUploader({
           
           <p className="text-lg font-medium mb-2">
             {isDragging 
-              ? 'Drop your GPX file here' 
-              : 'Drag and drop your GPX file here'
+              ? 'Drop your track files here' 
+              : 'Drag and drop track files or folders here'
             }
           </p>
           
@@ -120,50 +226,122 @@ export function FileUploader({
             or
           </p>
           
-          <label htmlFor="file-upload">
-            <Button 
-              variant="outline" 
-              disabled={isUploading}
-              asChild
-            >
-              <span>Browse Files</span>
-            </Button>
-            <input
-              id="file-upload"
-              type="file"
-              className="hidden"
-              accept={acceptedFormats.join(',')}
-              onChange={handleFileSelect}
-              disabled={isUploading}
-            />
-          </label>
+          <div className="flex justify-center gap-2">
+            <label htmlFor="file-upload">
+              <Button 
+                variant="outline" 
+                disabled={isUploading}
+                asChild
+              >
+                <span>Browse Files</span>
+              </Button>
+              <input
+                id="file-upload"
+                type="file"
+                className="hidden"
+                accept={[...acceptedFormats, '.zip'].join(',')}
+                onChange={handleFileSelect}
+                disabled={isUploading}
+                multiple
+              />
+            </label>
+
+            <label htmlFor="folder-upload">
+              <Button 
+                variant="outline" 
+                disabled={isUploading}
+                asChild
+              >
+                <span>
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                  Folder
+                </span>
+              </Button>
+              <input
+                id="folder-upload"
+                type="file"
+                className="hidden"
+                // webkitdirectory is not part of React's input attribute types
+                ref={input => input?.setAttribute('webkitdirectory', '')}
+                onChange={handleFileSelect}
+                disabled={isUploading}
+                multiple
+              />
+            </label>
+          </div>
           
           <p className="text-xs text-gray-400 mt-4">
-            Supported formats: {acceptedFormats.join(', ')}
+            Supported formats: {acceptedFormats.join(', ')} (or .zip archives of them)
           </p>
         </div>
       </Card>
 
-      {uploadedFiles.length > 0 && (
+      {uploads.length > 0 && (
         <Card className="p-4">
-          <h3 className="text-sm font-semibold mb-3">Uploaded Files</h3>
-          <div className="space-y-2">
-            {uploadedFiles.map((file, index) => (
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold">Uploaded Files</h3>
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-gray-500">
+                {completedCount} / {uploads.length}
+              </span>
+              {isUploading && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={cancelUpload}
+                  className="h-6 px-2 text-xs text-destructive hover:text-destructive"
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {uploads.map((upload) => (
               <div 
-                key={`${file.name}-${index}`}
+                key={upload.id}
                 className="flex items-center justify-between p-2 bg-gray-50 rounded-md"
               >
-                <div className="flex items-center space-x-2">
-                  <FileText className="h-4 w-4 text-gray-500" />
-                  <span className="text-sm">{file.name}</span>
-                  <span className="text-xs text-gray-400">
-                    ({(file.size / 1024).toFixed(1)} KB)
-                  </span>
+                <div className="flex items-center space-x-2 min-w-0">
+                  {upload.status === 'processing' ? (
+                    <Loader2 className="h-4 w-4 text-primary animate-spin flex-shrink-0" />
+                  ) : upload.status === 'success' ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
+                  ) : upload.status === 'error' ? (
+                    <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                  ) : (
+                    <FileText className="h-4 w-4 text-gray-500 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm truncate" title={upload.name}>{upload.name}</span>
+                      <span className="text-xs text-gray-400 flex-shrink-0">
+                        ({(upload.size / 1024).toFixed(1)} KB)
+                      </span>
+                    </div>
+                    {upload.status === 'processing' && upload.progress !== undefined && (
+                      <div className="mt-1 h-1 w-full rounded bg-gray-200 overflow-hidden">
+                        <div
+                          className="h-full bg-primary transition-all"
+                          style={{ width: `${Math.round(upload.progress * 100)}%` }}
+                        />
+                      </div>
+                    )}
+                    {upload.status === 'cancelled' && (
+                      <p className="text-xs text-gray-400">Cancelled</p>
+                    )}
+                    {upload.error && (
+                      <p className="text-xs text-destructive truncate" title={upload.error}>
+                        {upload.error}
+                      </p>
+                    )}
+                  </div>
                 </div>
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => removeFile(index)}
+                  onClick={() => removeUpload(upload.id)}
+                  disabled={upload.status === 'processing'}
                   className="h-6 w-6 p-0"
                 >
                   <X className="h-4 w-4" />
@@ -175,4 +353,4 @@ export function FileUploader({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
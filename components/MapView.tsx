@@ -1,9 +1,20 @@
 'use client';
 
-import React, { useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
-import { MapContainer, TileLayer, Polyline, useMap, Marker, Popup } from 'react-leaflet';
-import { Track } from '@/types/track';
-import { Photo } from '@/types/photo';
+import React, { useEffect, useRef, useMemo, useState, forwardRef, useImperativeHandle } from 'react';
+import { MapContainer, TileLayer, Polyline, useMap, Marker, Popup, Tooltip, CircleMarker } from 'react-leaflet';
+import { Track, TrackPoint } from '@/types/track';
+import { Photo, PhotoLocation } from '@/types/photo';
+import { Waypoint } from '@/types/waypoint';
+import { formatDuration } from '@/lib/gpx-parser';
+import { buildMetricColoring, MetricColoring, COLOR_METRICS } from '@/lib/track-metrics';
+import { getRampGradientCSS } from '@/lib/color-ramps';
+import { simplifySegments } from '@/lib/track-simplify';
+import { TrackOutlier } from '@/lib/track-outliers';
+import { ElevationSmoothingOptions } from '@/lib/elevation-smoothing';
+import { PHOTO_DRAG_TYPE } from '@/components/PhotoList';
+import { TrackEditPreview } from '@/components/TrackEditTools';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import { isHeicFile } from '@/lib/exif-parser';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 import Image from 'next/image';
@@ -35,9 +46,60 @@ const cameraIcon = new L.Icon({
   // No shadow - it was causing the icon to fail to load
 });
 
+const waypointIcon = new L.Icon({
+  iconUrl: 'data:image/svg+xml;base64,' + btoa(`
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="32" viewBox="0 0 24 32">
+      <path d="M12 31 C12 31 2 18 2 11 A10 10 0 0 1 22 11 C22 18 12 31 12 31 Z" fill="#059669" stroke="#065f46" stroke-width="2"/>
+      <path d="M9 6 V17 M9 6 H16 L14 8.5 L16 11 H9" fill="white" stroke="white" stroke-width="1.5" stroke-linejoin="round"/>
+    </svg>
+  `),
+  iconSize: [24, 32],
+  iconAnchor: [12, 32],
+  popupAnchor: [0, -32],
+  tooltipAnchor: [10, -18],
+});
+
+const stopIcon = new L.Icon({
+  iconUrl: 'data:image/svg+xml;base64,' + btoa(`
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20">
+      <circle cx="10" cy="10" r="9" fill="#D97706" stroke="#92400e" stroke-width="2"/>
+      <rect x="6.5" y="5.5" width="2.5" height="9" fill="white"/>
+      <rect x="11" y="5.5" width="2.5" height="9" fill="white"/>
+    </svg>
+  `),
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+  popupAnchor: [0, -10],
+});
+
+const editHandleIcon = new L.Icon({
+  iconUrl: 'data:image/svg+xml;base64,' + btoa(`
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20">
+      <circle cx="10" cy="10" r="8" fill="#7C3AED" stroke="white" stroke-width="3"/>
+    </svg>
+  `),
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+});
+
+// How close, in screen pixels, a placed photo must be to a track point to snap to it
+const PHOTO_SNAP_DISTANCE = 50;
+
 interface MapViewProps {
   tracks: Track[];
   photos?: Photo[];
+  waypoints?: Waypoint[];
+  highlightedPoint?: TrackPoint | null;
+  highlightedPath?: TrackPoint[] | null;
+  editPreview?: TrackEditPreview | null;
+  flaggedPoints?: TrackOutlier[] | null;
+  elevationSmoothing?: ElevationSmoothingOptions;
+  showStops?: boolean;
+  onTrackClick?: (trackId: string) => void;
+  onTrackHover?: (trackId: string, lat: number, lon: number) => void;
+  onTrackHoverEnd?: () => void;
+  onPhotoLocationChange?: (photoId: string, location: PhotoLocation) => void;
+  snapPhotosToTracks?: boolean;
   className?: string;
 }
 
@@ -45,10 +107,17 @@ export interface MapViewRef {
   exportMap: () => Promise<Blob>;
 }
 
-function MapBoundsUpdater({ tracks, photos }: { tracks: Track[]; photos?: Photo[] }) {
+function MapBoundsUpdater({ tracks, photos, waypoints }: { tracks: Track[]; photos?: Photo[]; waypoints?: Waypoint[] }) {
   const map = useMap();
 
+  // Placing or moving a photo shouldn't pull the map away from where it was dropped,
+  // so only a change in which photos are shown triggers a refit
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  const visiblePhotoKey = photos?.filter(photo => photo.visible).map(photo => photo.id).join(',');
+
   useEffect(() => {
+    const photos = photosRef.current;
     const allPoints: L.LatLngTuple[] = [];
     
     tracks.forEach(track => {
@@ -69,18 +138,108 @@ function MapBoundsUpdater({ tracks, photos }: { tracks: Track[]; photos?: Photo[
       });
     }
 
+    if (waypoints) {
+      waypoints.forEach(waypoint => {
+        if (waypoint.visible) {
+          allPoints.push([waypoint.lat, waypoint.lon]);
+        }
+      });
+    }
+
     if (allPoints.length > 0) {
       const bounds = L.latLngBounds(allPoints);
       map.fitBounds(bounds, { padding: [50, 50] });
     }
-  }, [tracks, photos, map]);
+  }, [tracks, visiblePhotoKey, waypoints, map]);
+
+  return null;
+}
+
+// Keeps Leaflet's tile layout in sync when panels around the map open or close
+function MapResizeHandler() {
+  const map = useMap();
+
+  useEffect(() => {
+    const observer = new ResizeObserver(() => map.invalidateSize());
+    observer.observe(map.getContainer());
+    return () => observer.disconnect();
+  }, [map]);
 
   return null;
 }
 
-const MapView = forwardRef<MapViewRef, MapViewProps>(({ tracks, photos = [], className = '' }, ref) => {
+// The full-size image is read from the original file only while its popup is open
+function PhotoPopupImage({ photo }: { photo: Photo }) {
+  const fullImageUrl = useObjectUrl(isHeicFile(photo.file) ? null : photo.file);
+  const thumbnailUrl = useObjectUrl(photo.thumbnail);
+  const src = fullImageUrl || thumbnailUrl;
+
+  return (
+    <div className="relative w-full h-[200px] mb-2">
+      {src && (
+        <Image 
+          src={src} 
+          alt={photo.name}
+          fill
+          className="rounded object-contain"
+          sizes="300px"
+        />
+      )}
+    </div>
+  );
+}
+
+function ColorMetricLegend({ entries }: { entries: { track: Track; coloring: MetricColoring }[] }) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  // Rendered inside the export container (not as a Leaflet control) so it appears in PNG exports
+  return (
+    <div className="absolute bottom-6 left-2 z-[1000] space-y-2 rounded-md bg-white/90 p-2 shadow-md pointer-events-none">
+      {entries.map(({ track, coloring }) => {
+        const { label, format } = COLOR_METRICS[coloring.metric];
+
+        return (
+          <div key={track.id} className="w-48">
+            <p className="text-xs font-medium truncate">
+              {label} • {track.name}
+            </p>
+            <div
+              className="h-2 rounded-sm mt-1"
+              style={{ backgroundImage: getRampGradientCSS(coloring.ramp) }}
+            />
+            <div className="flex justify-between text-[10px] text-gray-600 mt-0.5">
+              <span>{format(coloring.min)}</span>
+              <span>{format(coloring.max)}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const MapView = forwardRef<MapViewRef, MapViewProps>(({
+  tracks,
+  photos = [],
+  waypoints = [],
+  highlightedPoint,
+  highlightedPath,
+  editPreview,
+  flaggedPoints,
+  elevationSmoothing,
+  showStops = false,
+  onTrackClick,
+  onTrackHover,
+  onTrackHoverEnd,
+  onPhotoLocationChange,
+  snapPhotosToTracks = false,
+  className = '',
+}, ref) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<L.Map | null>(null);
+  const [openPhotoId, setOpenPhotoId] = useState<string | null>(null);
 
   useImperativeHandle(ref, () => ({
     exportMap: async () => {
@@ -113,6 +272,87 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ tracks, photos = [], cla
     }
   }));
 
+  // Tracks as drawn, with any render-only simplification applied
+  const renderedTracks = useMemo(() => tracks.map(track => (
+    track.style.simplification
+      ? { ...track, segments: simplifySegments(track.segments, track.style.simplification) }
+      : track
+  )), [tracks]);
+
+  const metricColorings = useMemo(() => renderedTracks
+    .filter(track => track.visible && track.style.colorBy)
+    .flatMap(track => {
+      const coloring = buildMetricColoring(track, elevationSmoothing);
+      return coloring ? [{ track, coloring }] : [];
+    }), [renderedTracks, elevationSmoothing]);
+
+  const getPhotoLocation = (latlng: L.LatLng): PhotoLocation => {
+    const map = mapRef.current;
+    if (snapPhotosToTracks && map) {
+      const target = map.latLngToContainerPoint(latlng);
+      let nearest: TrackPoint | null = null;
+      let nearestDistance = PHOTO_SNAP_DISTANCE;
+
+      for (const track of tracks) {
+        if (!track.visible) continue;
+        for (const segment of track.segments) {
+          for (const point of segment.points) {
+            const distance = map.latLngToContainerPoint([point.lat, point.lon]).distanceTo(target);
+            if (distance <= nearestDistance) {
+              nearest = point;
+              nearestDistance = distance;
+            }
+          }
+        }
+      }
+
+      if (nearest) {
+        return { lat: nearest.lat, lon: nearest.lon, ele: nearest.ele };
+      }
+    }
+    return { lat: latlng.lat, lon: latlng.lng };
+  };
+
+  // Flat index of the edited track's point nearest to where a handle was dropped
+  const getEditHandleIndex = (latlng: L.LatLng): number | null => {
+    const map = mapRef.current;
+    const track = tracks.find(track => track.id === editPreview?.trackId);
+    if (!map || !track) return null;
+
+    const target = map.latLngToContainerPoint(latlng);
+    let nearestIndex: number | null = null;
+    let nearestDistance = Infinity;
+    let index = 0;
+
+    for (const segment of track.segments) {
+      for (const point of segment.points) {
+        const distance = map.latLngToContainerPoint([point.lat, point.lon]).distanceTo(target);
+        if (distance < nearestDistance) {
+          nearestIndex = index;
+          nearestDistance = distance;
+        }
+        index++;
+      }
+    }
+
+    return nearestIndex;
+  };
+
+  const handlePhotoDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (onPhotoLocationChange && e.dataTransfer.types.includes(PHOTO_DRAG_TYPE)) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    }
+  };
+
+  const handlePhotoDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const photoId = e.dataTransfer.getData(PHOTO_DRAG_TYPE);
+    if (!photoId || !mapRef.current || !onPhotoLocationChange) return;
+
+    e.preventDefault();
+    onPhotoLocationChange(photoId, getPhotoLocation(mapRef.current.mouseEventToLatLng(e.nativeEvent)));
+  };
+
   const getPolylineOptions = (track: Track) => {
     const dashArray = track.style.lineStyle === 'dashed' ? '10, 5' : 
                      track.style.lineStyle === 'dotted' ? '2, 8' : 
@@ -142,7 +382,12 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ tracks, photos = [], cla
   }
 
   return (
-    <div ref={mapContainerRef} className={`w-full h-full ${className}`}>
+    <div
+      ref={mapContainerRef}
+      className={`relative w-full h-full ${className}`}
+      onDragOver={handlePhotoDragOver}
+      onDrop={handlePhotoDrop}
+    >
       <MapContainer
         center={initialCenter}
         zoom={initialZoom}
@@ -154,8 +399,28 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ tracks, photos = [], cla
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
         
-        {tracks.map(track => (
-          track.visible && track.segments.map((segment, segmentIndex) => {
+        {renderedTracks.map(track => {
+          if (!track.visible) return null;
+
+          const trackEventHandlers = {
+            click: () => onTrackClick?.(track.id),
+            mousemove: (e: L.LeafletMouseEvent) => onTrackHover?.(track.id, e.latlng.lat, e.latlng.lng),
+            mouseout: () => onTrackHoverEnd?.(),
+          };
+          const coloring = metricColorings.find(entry => entry.track.id === track.id)?.coloring;
+
+          if (coloring) {
+            return coloring.runs.map((run, runIndex) => (
+              <Polyline
+                key={`${track.id}-run-${runIndex}`}
+                positions={run.positions}
+                pathOptions={{ ...getPolylineOptions(track), color: run.color }}
+                eventHandlers={trackEventHandlers}
+              />
+            ));
+          }
+
+          return track.segments.map((segment, segmentIndex) => {
             const positions: L.LatLngTuple[] = segment.points.map(point => [point.lat, point.lon]);
             
             return positions.length > 0 ? (
@@ -163,10 +428,11 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ tracks, photos = [], cla
                 key={`${track.id}-${segmentIndex}`}
                 positions={positions}
                 pathOptions={getPolylineOptions(track)}
+                eventHandlers={trackEventHandlers}
               />
             ) : null;
-          })
-        ))}
+          });
+        })}
         
         {photos && photos.map(photo => (
           photo.visible && photo.location && (
@@ -174,18 +440,22 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ tracks, photos = [], cla
               key={photo.id}
               position={[photo.location.lat, photo.location.lon]}
               icon={cameraIcon}
+              draggable={!!onPhotoLocationChange}
+              eventHandlers={{
+                dragend: (e) => {
+                  const marker = e.target as L.Marker;
+                  const location = getPhotoLocation(marker.getLatLng());
+                  // Show the snapped position even if it matches the old one
+                  marker.setLatLng([location.lat, location.lon]);
+                  onPhotoLocationChange?.(photo.id, location);
+                },
+                popupopen: () => setOpenPhotoId(photo.id),
+                popupclose: () => setOpenPhotoId(current => (current === photo.id ? null : current)),
+              }}
             >
               <Popup>
                 <div className="p-2 min-w-[200px] max-w-[300px]">
-                  <div className="relative w-full h-[200px] mb-2">
-                    <Image 
-                      src={photo.thumbnailUrl || photo.dataUrl} 
-                      alt={photo.name}
-                      fill
-                      className="rounded object-contain"
-                      sizes="300px"
-                    />
-                  </div>
+                  {openPhotoId === photo.id && <PhotoPopupImage photo={photo} />}
                   <p className="text-sm font-medium truncate">{photo.name}</p>
                   {photo.timestamp && (
                     <p className="text-xs text-gray-500">
@@ -204,8 +474,126 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ tracks, photos = [], cla
           )
         ))}
         
-        <MapBoundsUpdater tracks={tracks} photos={photos} />
+        {waypoints.map(waypoint => (
+          waypoint.visible && (
+            <Marker
+              key={waypoint.id}
+              position={[waypoint.lat, waypoint.lon]}
+              icon={waypointIcon}
+            >
+              {waypoint.name && (
+                <Tooltip permanent direction="right" className="text-xs">
+                  {waypoint.name}
+                </Tooltip>
+              )}
+              <Popup>
+                <div className="p-1 min-w-[160px] max-w-[260px]">
+                  <p className="text-sm font-medium">{waypoint.name || 'Waypoint'}</p>
+                  {waypoint.description && (
+                    <p className="text-xs text-gray-600 mt-1 whitespace-pre-line">{waypoint.description}</p>
+                  )}
+                  {waypoint.time && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Intl.DateTimeFormat('en-US', {
+                        dateStyle: 'medium',
+                        timeStyle: 'short'
+                      }).format(waypoint.time)}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-1">
+                    {waypoint.lat.toFixed(6)}, {waypoint.lon.toFixed(6)}
+                    {waypoint.ele !== undefined && ` • ${waypoint.ele.toFixed(0)}m`}
+                  </p>
+                </div>
+              </Popup>
+            </Marker>
+          )
+        ))}
+        
+        {highlightedPath && highlightedPath.length > 1 && (
+          <Polyline
+            positions={highlightedPath.map(point => [point.lat, point.lon] as L.LatLngTuple)}
+            pathOptions={{ color: '#FACC15', weight: 8, opacity: 0.8, lineCap: 'round' }}
+            interactive={false}
+          />
+        )}
+        
+        {showStops && tracks.map(track => (
+          track.visible && track.stats?.stops?.map((stop, stopIndex) => (
+            <Marker
+              key={`${track.id}-stop-${stopIndex}`}
+              position={[stop.lat, stop.lon]}
+              icon={stopIcon}
+            >
+              <Popup>
+                <div className="p-1 min-w-[160px]">
+                  <p className="text-sm font-medium">Stop • {formatDuration(stop.duration)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Intl.DateTimeFormat('en-US', { timeStyle: 'short' }).format(stop.startTime)}
+                    {' – '}
+                    {new Intl.DateTimeFormat('en-US', { timeStyle: 'short' }).format(stop.endTime)}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-1 truncate">{track.name}</p>
+                </div>
+              </Popup>
+            </Marker>
+          ))
+        ))}
+        
+        {flaggedPoints?.map((outlier, index) => (
+          <CircleMarker
+            key={`flagged-${index}`}
+            center={[outlier.point.lat, outlier.point.lon]}
+            radius={6}
+            pathOptions={{ color: '#991B1B', weight: 2, fillColor: '#EF4444', fillOpacity: 0.9 }}
+          >
+            <Popup>
+              <div className="p-1">
+                <p className="text-sm font-medium">
+                  {outlier.reason === 'speed' ? 'Impossible speed' : 'Impossible acceleration'}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {isFinite(outlier.speed) ? `${(outlier.speed * 3.6).toFixed(0)} km/h` : 'No time elapsed'}
+                </p>
+              </div>
+            </Popup>
+          </CircleMarker>
+        ))}
+        
+        {editPreview?.points.map((point, handle) => (
+          <Marker
+            key={`edit-handle-${handle}`}
+            position={[point.lat, point.lon]}
+            icon={editHandleIcon}
+            draggable
+            eventHandlers={{
+              dragend: (e) => {
+                const marker = e.target as L.Marker;
+                const index = getEditHandleIndex(marker.getLatLng());
+                // Snap back onto the track, even when the handle stays on the same point
+                marker.setLatLng([point.lat, point.lon]);
+                if (index !== null) {
+                  editPreview.moveHandle(handle, index);
+                }
+              },
+            }}
+          />
+        ))}
+        
+        {highlightedPoint && (
+          <CircleMarker
+            center={[highlightedPoint.lat, highlightedPoint.lon]}
+            radius={6}
+            pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#1f2937', fillOpacity: 1 }}
+            interactive={false}
+          />
+        )}
+        
+        <MapBoundsUpdater tracks={tracks} photos={photos} waypoints={waypoints} />
+        <MapResizeHandler />
       </MapContainer>
+      
+      <ColorMetricLegend entries={metricColorings} />
     </div>
   );
 });
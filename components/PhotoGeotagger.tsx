@@ -0,0 +1,178 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import { Photo, PhotoLocationUpdate } from '@/types/photo';
+import { Track } from '@/types/track';
+import { matchPhotosToTracks, DEFAULT_GEOTAG_OPTIONS } from '@/lib/photo-geotag';
+import { formatDistance } from '@/lib/gpx-parser';
+import { MapPin, MapPinOff } from 'lucide-react';
+
+interface PhotoGeotaggerProps {
+  photos: Photo[];
+  tracks: Track[];
+  onApply: (updates: PhotoLocationUpdate[]) => void;
+}
+
+export function PhotoGeotagger({ photos, tracks, onApply }: PhotoGeotaggerProps) {
+  const [offsetHours, setOffsetHours] = useState(0);
+  const [offsetSeconds, setOffsetSeconds] = useState(0);
+  const [maxGapMinutes, setMaxGapMinutes] = useState(DEFAULT_GEOTAG_OPTIONS.maxTimeGap / 60);
+  const { toast } = useToast();
+
+  const candidates = useMemo(
+    () => photos.filter(photo => !photo.location && photo.timestamp),
+    [photos]
+  );
+  const hasTimedTracks = useMemo(
+    () => tracks.some(track => track.segments.some(segment => segment.points.some(point => point.time))),
+    [tracks]
+  );
+  const matches = useMemo(
+    () => matchPhotosToTracks(candidates, tracks, {
+      offsetSeconds: offsetHours * 3600 + offsetSeconds,
+      maxTimeGap: maxGapMinutes * 60,
+    }),
+    [candidates, tracks, offsetHours, offsetSeconds, maxGapMinutes]
+  );
+  const matchesById = useMemo(
+    () => new Map(matches.map(match => [match.photoId, match])),
+    [matches]
+  );
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const formatOffset = (hours: number): string => {
+    const sign = hours < 0 ? '-' : '+';
+    const totalMinutes = Math.round(Math.abs(hours) * 60);
+    const minutes = totalMinutes % 60;
+    return `${sign}${Math.floor(totalMinutes / 60)}h${minutes > 0 ? ` ${minutes}m` : ''}`;
+  };
+
+  const formatGap = (seconds: number): string => {
+    if (seconds < 60) return `${Math.round(seconds)}s`;
+    return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+  };
+
+  const handleApply = () => {
+    onApply(matches.map(match => ({ photoId: match.photoId, location: match.location, gpsTime: match.time })));
+    toast({
+      title: 'Photos geotagged',
+      description: `Added a location to ${matches.length} ${matches.length === 1 ? 'photo' : 'photos'}`,
+    });
+  };
+
+  return (
+    <Card className="p-4">
+      <h2 className="text-lg font-semibold mb-1">Geotag from Tracks</h2>
+      <p className="text-xs text-gray-500 mb-3">
+        Place photos without a location along the loaded tracks using their capture time.
+      </p>
+
+      {!hasTimedTracks ? (
+        <p className="text-xs text-gray-500">Load a track with timestamps to geotag photos.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <Label htmlFor="geotag-offset-hours" className="text-xs">
+                Time Zone Correction
+              </Label>
+              <span className="text-xs text-gray-500">{formatOffset(offsetHours)}</span>
+            </div>
+            <Slider
+              id="geotag-offset-hours"
+              min={-14}
+              max={14}
+              step={0.25}
+              value={[offsetHours]}
+              onValueChange={([value]) => setOffsetHours(value)}
+              className="cursor-pointer"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <Label htmlFor="geotag-offset-seconds" className="text-xs">
+                Camera Clock Offset
+              </Label>
+              <span className="text-xs text-gray-500">
+                {offsetSeconds > 0 ? '+' : ''}{offsetSeconds}s
+              </span>
+            </div>
+            <Slider
+              id="geotag-offset-seconds"
+              min={-600}
+              max={600}
+              step={5}
+              value={[offsetSeconds]}
+              onValueChange={([value]) => setOffsetSeconds(value)}
+              className="cursor-pointer"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <Label htmlFor="geotag-max-gap" className="text-xs">
+                Max Gap Outside Track
+              </Label>
+              <span className="text-xs text-gray-500">{maxGapMinutes} min</span>
+            </div>
+            <Slider
+              id="geotag-max-gap"
+              min={0}
+              max={60}
+              step={1}
+              value={[maxGapMinutes]}
+              onValueChange={([value]) => setMaxGapMinutes(value)}
+              className="cursor-pointer"
+            />
+          </div>
+
+          <div className="space-y-1 max-h-60 overflow-y-auto">
+            {candidates.map(photo => {
+              const match = matchesById.get(photo.id);
+              return (
+                <div key={photo.id} className="flex items-start gap-2 p-2 bg-gray-50 rounded-md text-xs">
+                  {match ? (
+                    <MapPin className="h-3 w-3 mt-0.5 flex-shrink-0 text-green-600" />
+                  ) : (
+                    <MapPinOff className="h-3 w-3 mt-0.5 flex-shrink-0 text-gray-400" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate" title={photo.name}>{photo.name}</p>
+                    {match ? (
+                      <p
+                        className="text-gray-500 truncate"
+                        title="Distance and time to the closest recorded track point"
+                      >
+                        {match.trackName} · {formatDistance(match.distance)} · {formatGap(match.timeGap)}
+                      </p>
+                    ) : (
+                      <p className="text-gray-500">No track recorded at this time</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <Button
+            size="sm"
+            onClick={handleApply}
+            disabled={matches.length === 0}
+            className="w-full"
+          >
+            Apply {matches.length} of {candidates.length} {candidates.length === 1 ? 'Match' : 'Matches'}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -4,16 +4,46 @@ import React from 'react';
 import { Photo } from '@/types/photo';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { X, Eye, EyeOff, MapPin, MapPinOff, Calendar } from 'lucide-react';
+import { X, Eye, EyeOff, MapPin, MapPinOff, Calendar, Magnet } from 'lucide-react';
 import Image from 'next/image';
+import { useObjectUrl } from '@/hooks/use-object-url';
+
+// Drag data type for dropping a photo from the list onto the map
+export const PHOTO_DRAG_TYPE = 'application/x-photo-id';
+
+function PhotoThumbnail({ photo }: { photo: Photo }) {
+  const thumbnailUrl = useObjectUrl(photo.thumbnail);
+
+  if (!thumbnailUrl) {
+    return null;
+  }
+
+  return (
+    <Image 
+      src={thumbnailUrl} 
+      alt={photo.name}
+      fill
+      className="object-cover rounded"
+      sizes="64px"
+    />
+  );
+}
 
 interface PhotoListProps {
   photos: Photo[];
   onRemovePhoto: (photoId: string) => void;
   onToggleVisibility: (photoId: string) => void;
+  snapToTracks?: boolean;
+  onSnapToTracksChange?: (snap: boolean) => void;
 }
 
-export function PhotoList({ photos, onRemovePhoto, onToggleVisibility }: PhotoListProps) {
+export function PhotoList({
+  photos,
+  onRemovePhoto,
+  onToggleVisibility,
+  snapToTracks = false,
+  onSnapToTracksChange,
+}: PhotoListProps) {
   if (photos.length === 0) {
     return null;
   }
@@ -43,23 +73,36 @@ export function PhotoList({ photos, onRemovePhoto, onToggleVisibility }: PhotoLi
           {photos.filter(p => p.location).length} with location
         </span>
       </h3>
+
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className="text-xs text-gray-500">Drag a photo onto the map to place it.</p>
+        {onSnapToTracksChange && (
+          <Button
+            variant={snapToTracks ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => onSnapToTracksChange(!snapToTracks)}
+            className="h-7 text-xs flex-shrink-0"
+            title="Snap placed photos to the nearest point on a visible track"
+          >
+            <Magnet className="mr-1 h-3 w-3" />
+            Snap to Track
+          </Button>
+        )}
+      </div>
       
       <div className="space-y-2 max-h-96 overflow-y-auto">
         {photos.map((photo) => (
           <div 
             key={photo.id}
-            className="flex items-start space-x-2 p-2 bg-gray-50 rounded-md hover:bg-gray-100 transition-colors"
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(PHOTO_DRAG_TYPE, photo.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            className="flex items-start space-x-2 p-2 bg-gray-50 rounded-md hover:bg-gray-100 transition-colors cursor-grab active:cursor-grabbing"
           >
             <div className="relative flex-shrink-0 w-16 h-16">
-              {photo.thumbnailUrl && (
-                <Image 
-                  src={photo.thumbnailUrl} 
-                  alt={photo.name}
-                  fill
-                  className="object-cover rounded"
-                  sizes="64px"
-                />
-              )}
+              <PhotoThumbnail photo={photo} />
               {!photo.visible && (
                 <div className="absolute inset-0 bg-black/50 rounded flex items-center justify-center z-10">
                   <EyeOff className="h-4 w-4 text-white" />
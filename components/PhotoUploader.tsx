@@ -1,76 +1,145 @@
 'use client';
 
-import React, { useCallback, useState } from 'react';
-import { Camera, Image as ImageIcon } from 'lucide-react';
+import React, { useCallback, useRef, useState } from 'react';
+import { Camera, Image as ImageIcon, Loader2, AlertCircle, X } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { PhotoFileUpdate, PhotoPipelineOptions } from '@/lib/photo-pipeline';
 
 interface PhotoUploaderProps {
-  onPhotosUpload: (files: File[]) => Promise<void>;
+  onPhotosUpload: (files: File[], options: PhotoPipelineOptions) => Promise<void>;
   isProcessing?: boolean;
   acceptedFormats?: string[];
 }
 
+interface UploadEntry extends Partial<PhotoFileUpdate> {
+  name: string;
+}
+
+interface UploadFailure {
+  name: string;
+  reason: string;
+}
+
+function groupFailures(failures: UploadFailure[]): { reason: string; names: string[] }[] {
+  const groups = new Map<string, string[]>();
+  failures.forEach(({ name, reason }) => {
+    groups.set(reason, [...(groups.get(reason) ?? []), name]);
+  });
+  return Array.from(groups, ([reason, names]) => ({ reason, names }));
+}
+
 export function PhotoUploader({ 
   onPhotosUpload, 
   isProcessing = false,
   acceptedFormats = ['.jpg', '.jpeg', '.png', '.heic', '.webp'] 
 }: PhotoUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [entries, setEntries] = useState<UploadEntry[]>([]);
+  const [failures, setFailures] = useState<UploadFailure[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
-  const validateFiles = useCallback((files: File[]): File[] => {
+  const validateFiles = useCallback((files: File[]) => {
     const validFiles: File[] = [];
+    const rejected: UploadFailure[] = [];
     
     for (const file of files) {
       const fileExtension = `.${file.name.split('.').pop()?.toLowerCase()}`;
       
       if (!acceptedFormats.includes(fileExtension)) {
-        toast({
-          title: "Invalid file format",
-          description: `${file.name} is not a supported image format. Accepted formats: ${acceptedFormats.join(', ')}`,
-          variant: "destructive",
-        });
+        rejected.push({ name: file.name, reason: 'Unsupported format' });
         continue;
       }
       
       if (file.size > 50 * 1024 * 1024) {
-        toast({
-          title: "File too large",
-          description: `${file.name} exceeds the 50MB size limit`,
-          variant: "destructive",
-        });
+        rejected.push({ name: file.name, reason: 'Larger than 50MB' });
         continue;
       }
       
       validFiles.push(file);
     }
     
-    return validFiles;
-  }, [acceptedFormats, toast]);
+    return { validFiles, rejected };
+  }, [acceptedFormats]);
 
   const handleFiles = useCallback(async (files: File[]) => {
-    const validFiles = validateFiles(files);
-    
-    if (validFiles.length === 0) return;
-    
+    const { validFiles, rejected } = validateFiles(files);
+    const batchFailures = [...rejected];
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setEntries(validFiles.map(file => ({ name: file.name })));
+    setFailures(batchFailures);
+    setIsUploading(true);
+
+    let successCount = 0;
+    const settled = new Set<number>();
     try {
-      await onPhotosUpload(validFiles);
+      if (validFiles.length > 0) {
+        await onPhotosUpload(validFiles, {
+          signal: abortController.signal,
+          onFileUpdate: (index, update) => {
+            if (update.status === 'success') {
+              successCount++;
+              settled.add(index);
+            } else if (update.status === 'error') {
+              settled.add(index);
+              batchFailures.push({ name: validFiles[index].name, reason: update.error ?? 'Failed to process' });
+            }
+            setEntries(prev => prev.map((entry, i) => i === index ? { ...entry, ...update } : entry));
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Upload error:', error);
+      validFiles.forEach((file, index) => {
+        if (!settled.has(index)) {
+          batchFailures.push({ name: file.name, reason: error instanceof Error ? error.message : 'Failed to process' });
+        }
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setFailures([...batchFailures]);
+      setIsUploading(false);
+    }
+
+    const failureSummary = groupFailures(batchFailures)
+      .map(({ reason, names }) => `${reason} (${names.length})`)
+      .join(', ');
+
+    if (abortController.signal.aborted) {
+      toast({
+        title: "Upload cancelled",
+        description: `${successCount} of ${validFiles.length} photos processed before cancelling.`,
+      });
+    } else if (batchFailures.length === 0) {
       toast({
         title: "Photos uploaded successfully",
-        description: `${validFiles.length} photo${validFiles.length > 1 ? 's' : ''} processed.`,
+        description: `${successCount} photo${successCount !== 1 ? 's' : ''} processed.`,
       });
-    } catch (error) {
-      console.error('Upload error:', error);
+    } else {
       toast({
-        title: "Upload failed",
-        description: error instanceof Error ? error.message : "Failed to process the photos",
+        title: successCount > 0 ? "Some photos failed to upload" : "Upload failed",
+        description: `${successCount} of ${files.length} photos processed. ${failureSummary}.`,
         variant: "destructive",
       });
     }
   }, [validateFiles, onPhotosUpload, toast]);
 
+  const cancelUpload = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const isBusy = isProcessing || isUploading;
+  const finishedCount = entries.filter(entry => entry.status && entry.status !== 'processing').length;
+  const overallProgress = entries.length > 0
+    ? entries.reduce((sum, entry) => sum + (entry.status === 'processing' ? entry.progress ?? 0 : entry.status ? 1 : 0), 0) / entries.length
+    : 0;
+  const failureGroups = groupFailures(failures);
+
   const handleDragEnter = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -108,66 +177,125 @@ export function PhotoUploader({
   }, [handleFiles]);
 
   return (
-    <Card
-      className={`relative border-2 border-dashed transition-colors duration-200 ${
-        isDragging 
-          ? 'border-primary bg-primary/5' 
-          : 'border-gray-300 hover:border-gray-400'
-      } ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
-      onDragEnter={handleDragEnter}
-      onDragLeave={handleDragLeave}
-      onDragOver={handleDragOver}
-      onDrop={handleDrop}
-    >
-      <div className="p-6 text-center">
-        <Camera className={`mx-auto h-10 w-10 mb-3 ${
-          isDragging ? 'text-primary' : 'text-gray-400'
-        }`} />
+    <div className="w-full space-y-3">
+      <Card
+        className={`relative border-2 border-dashed transition-colors duration-200 ${
+          isDragging 
+            ? 'border-primary bg-primary/5' 
+            : 'border-gray-300 hover:border-gray-400'
+        } ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}
+        onDragEnter={handleDragEnter}
+        onDragLeave={handleDragLeave}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+      >
+        <div className="p-6 text-center">
+          <Camera className={`mx-auto h-10 w-10 mb-3 ${
+            isDragging ? 'text-primary' : 'text-gray-400'
+          }`} />
         
-        <p className="text-sm font-medium mb-1">
-          {isDragging 
-            ? 'Drop your photos here' 
-            : 'Drag and drop photos here'
-          }
-        </p>
-        
-        <p className="text-xs text-gray-500 mb-3">
-          or
-        </p>
+          <p className="text-sm font-medium mb-1">
+            {isDragging 
+              ? 'Drop your photos here' 
+              : 'Drag and drop photos here'
+            }
+          </p>
         
-        <label htmlFor="photo-upload">
-          <Button 
-            variant="outline" 
-            size="sm"
-            disabled={isProcessing}
-            asChild
-          >
-            <span>
-              <ImageIcon className="h-4 w-4 mr-2" />
-              Browse Photos
-            </span>
-          </Button>
-          <input
-            id="photo-upload"
-            type="file"
-            className="hidden"
-            accept={acceptedFormats.join(',')}
-            onChange={handleFileSelect}
-            disabled={isProcessing}
-            multiple
-          />
-        </label>
+          <p className="text-xs text-gray-500 mb-3">
+            or
+          </p>
         
-        <p className="text-xs text-gray-400 mt-3">
-          Supported: {acceptedFormats.join(', ')}
-        </p>
+          <label htmlFor="photo-upload">
+            <Button 
+              variant="outline" 
+              size="sm"
+              disabled={isBusy}
+              asChild
+            >
+              <span>
+                <ImageIcon className="h-4 w-4 mr-2" />
+                Browse Photos
+              </span>
+            </Button>
+            <input
+              id="photo-upload"
+              type="file"
+              className="hidden"
+              accept={acceptedFormats.join(',')}
+              onChange={handleFileSelect}
+              disabled={isBusy}
+              multiple
+            />
+          </label>
         
-        {isProcessing && (
-          <p className="text-xs text-primary mt-2">
-            Processing photos...
+          <p className="text-xs text-gray-400 mt-3">
+            Supported: {acceptedFormats.join(', ')}
           </p>
-        )}
-      </div>
-    </Card>
+        </div>
+      </Card>
+
+      {isUploading && entries.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">
+              Processing {finishedCount} / {entries.length} photos
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={cancelUpload}
+              className="h-6 px-2 text-xs text-destructive hover:text-destructive"
+            >
+              Cancel
+            </Button>
+          </div>
+          <div className="h-2 w-full rounded bg-gray-200 overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${Math.round(overallProgress * 100)}%` }}
+            />
+          </div>
+          {entries.map((entry, index) => entry.status === 'processing' && (
+            <div key={index} className="flex items-center space-x-2 min-w-0">
+              <Loader2 className="h-3 w-3 text-primary animate-spin flex-shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="text-xs truncate" title={entry.name}>{entry.name}</p>
+                <div className="mt-0.5 h-1 w-full rounded bg-gray-200 overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${Math.round((entry.progress ?? 0) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isUploading && failureGroups.length > 0 && (
+        <div className="rounded-md bg-destructive/10 p-2">
+          <div className="flex items-center justify-between mb-1">
+            <span className="flex items-center gap-1 text-xs font-medium text-destructive">
+              <AlertCircle className="h-3 w-3" />
+              {failures.length} photo{failures.length !== 1 ? 's' : ''} not added
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setFailures([])}
+              className="h-5 w-5 p-0"
+              title="Dismiss"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          {failureGroups.map(({ reason, names }) => (
+            <p key={reason} className="text-xs text-gray-600 truncate" title={names.join('\n')}>
+              {reason}: {names.length}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
   );
 }
\ No newline at end of file
@@ -1,17 +1,48 @@
 'use client';
 
 import React from 'react';
-import { Eye, EyeOff, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { Eye, EyeOff, Trash2, ChevronDown, ChevronUp, Mountain } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Track, TrackStyle } from '@/types/track';
-import { formatDistance, formatDuration } from '@/lib/gpx-parser';
+import {
+  Track,
+  TrackPoint,
+  TrackStyle,
+  TrackColorMetric,
+  ColorRampName,
+  TrackSimplification,
+} from '@/types/track';
+import { formatDistance, formatDuration, formatSpeed, formatPace, PaceUnit } from '@/lib/gpx-parser';
+import { cn } from '@/lib/utils';
+import { ElevationSmoothingOptions } from '@/lib/elevation-smoothing';
+import { TrackSplitsTable } from '@/components/TrackSplitsTable';
+import { ClimbList } from '@/components/ClimbList';
+import { TrackEditTools, TrackEditPreview } from '@/components/TrackEditTools';
+import { TrackSimplifyTools } from '@/components/TrackSimplifyTools';
+import { TrackOutlierTools, TrackOutlierPreview } from '@/components/TrackOutlierTools';
+import { Climb } from '@/lib/climb-detection';
+import { COLOR_METRICS } from '@/lib/track-metrics';
+import { COLOR_RAMPS, DEFAULT_COLOR_RAMP, getRampGradientCSS } from '@/lib/color-ramps';
 
 interface TrackCustomizerProps {
   tracks: Track[];
+  selectedTrackId?: string | null;
+  onSelectTrack?: (trackId: string | null) => void;
+  elevationSmoothing?: ElevationSmoothingOptions;
+  selectedClimb?: { trackId: string; climb: Climb } | null;
+  onSelectClimb?: (trackId: string, climb: Climb | null) => void;
+  onTrimTrack?: (trackId: string, startIndex: number, endIndex: number) => void;
+  onSplitTrack?: (trackId: string, pointIndex: number) => void;
+  onSplitTrackByTimeGap?: (trackId: string, gapSeconds: number) => void;
+  onSplitTrackByDay?: (trackId: string) => void;
+  onMergeTracks?: (trackIds: string[]) => void;
+  onEditPreviewChange?: (preview: TrackEditPreview | null) => void;
+  onSimplifyTrack?: (trackId: string, options: TrackSimplification) => void;
+  onRemoveTrackPoints?: (trackId: string, points: TrackPoint[]) => void;
+  onOutlierPreviewChange?: (preview: TrackOutlierPreview | null) => void;
   onUpdateTrackStyle: (trackId: string, style: Partial<TrackStyle>) => void;
   onToggleVisibility: (trackId: string) => void;
   onRemoveTrack: (trackId: string) => void;
@@ -30,11 +61,26 @@ const PRESET_COLORS = [
 
 export function TrackCustomizer({
   tracks,
+  selectedTrackId,
+  onSelectTrack,
+  elevationSmoothing,
+  selectedClimb,
+  onSelectClimb,
+  onTrimTrack,
+  onSplitTrack,
+  onSplitTrackByTimeGap,
+  onSplitTrackByDay,
+  onMergeTracks,
+  onEditPreviewChange,
+  onSimplifyTrack,
+  onRemoveTrackPoints,
+  onOutlierPreviewChange,
   onUpdateTrackStyle,
   onToggleVisibility,
   onRemoveTrack,
 }: TrackCustomizerProps) {
   const [expandedTrack, setExpandedTrack] = React.useState<string | null>(null);
+  const [paceUnit, setPaceUnit] = React.useState<PaceUnit>('km');
 
   const toggleExpanded = (trackId: string) => {
     setExpandedTrack(expandedTrack === trackId ? null : trackId);
@@ -44,7 +90,7 @@ export function TrackCustomizer({
     return (
       <Card className="p-4">
         <p className="text-sm text-gray-500 text-center">
-          No tracks loaded. Upload a GPX file to get started.
+          No tracks loaded. Upload a track file to get started.
         </p>
       </Card>
     );
@@ -53,7 +99,10 @@ export function TrackCustomizer({
   return (
     <div className="space-y-2">
       {tracks.map((track) => (
-        <Card key={track.id} className="overflow-hidden">
+        <Card
+          key={track.id}
+          className={cn('overflow-hidden', selectedTrackId === track.id && 'ring-2 ring-primary')}
+        >
           <div className="p-3">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2 flex-1 min-w-0">
@@ -65,6 +114,18 @@ export function TrackCustomizer({
               </div>
               
               <div className="flex items-center space-x-1">
+                {onSelectTrack && (
+                  <Button
+                    variant={selectedTrackId === track.id ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => onSelectTrack(selectedTrackId === track.id ? null : track.id)}
+                    className="h-8 w-8 p-0"
+                    title={selectedTrackId === track.id ? 'Hide elevation profile' : 'Show elevation profile'}
+                  >
+                    <Mountain className="h-4 w-4" />
+                  </Button>
+                )}
+
                 <Button
                   variant="ghost"
                   size="sm"
@@ -106,12 +167,63 @@ export function TrackCustomizer({
               <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-gray-500">
                 <div>Distance: {formatDistance(track.stats.distance)}</div>
                 <div>Duration: {formatDuration(track.stats.duration)}</div>
-                {track.stats.elevationGain > 0 && (
+                {track.stats.movingTime !== undefined && (
+                  <>
+                    <div>Moving: {formatDuration(track.stats.movingTime)}</div>
+                    <div>
+                      Stops: {track.stats.stops?.length ?? 0}
+                      {track.stats.stops && track.stats.stops.length > 0 &&
+                        ` (${formatDuration(track.stats.stops.reduce((total, stop) => total + stop.duration, 0))})`}
+                    </div>
+                  </>
+                )}
+                {track.stats.averageMovingSpeed !== undefined && (
                   <>
-                    <div>↑ {track.stats.elevationGain.toFixed(0)}m</div>
-                    <div>↓ {track.stats.elevationLoss.toFixed(0)}m</div>
+                    <div>Avg: {formatSpeed(track.stats.averageMovingSpeed)}</div>
+                    <div>Max: {formatSpeed(track.stats.maxSpeed)}</div>
+                    <button
+                      type="button"
+                      onClick={() => setPaceUnit(paceUnit === 'km' ? 'mi' : 'km')}
+                      className="text-left hover:text-gray-700"
+                      title="Switch pace unit"
+                    >
+                      Pace: {formatPace(track.stats.averagePace, paceUnit)}
+                    </button>
                   </>
                 )}
+                {(track.stats.elevationGain > 0 || track.stats.rawElevationGain > 0) && (
+                  <>
+                    <div title={`Unsmoothed: ${track.stats.rawElevationGain.toFixed(0)}m`}>
+                      ↑ {track.stats.elevationGain.toFixed(0)}m
+                    </div>
+                    <div title={`Unsmoothed: ${track.stats.rawElevationLoss.toFixed(0)}m`}>
+                      ↓ {track.stats.elevationLoss.toFixed(0)}m
+                    </div>
+                  </>
+                )}
+                {track.stats.averageHeartRate !== undefined && (
+                  <div>
+                    HR: {track.stats.averageHeartRate.toFixed(0)} / {track.stats.maxHeartRate?.toFixed(0)} bpm
+                  </div>
+                )}
+                {track.stats.averageCadence !== undefined && (
+                  <div>
+                    Cadence: {track.stats.averageCadence.toFixed(0)} / {track.stats.maxCadence?.toFixed(0)} rpm
+                  </div>
+                )}
+                {track.stats.averagePower !== undefined && (
+                  <div>
+                    Power: {track.stats.averagePower.toFixed(0)} / {track.stats.maxPower?.toFixed(0)} W
+                  </div>
+                )}
+                {track.stats.averageTemperature !== undefined && (
+                  <div>
+                    Temp: {track.stats.averageTemperature.toFixed(1)} / {track.stats.maxTemperature?.toFixed(1)} °C
+                  </div>
+                )}
+                {track.laps && track.laps.length > 1 && (
+                  <div>Laps: {track.laps.length}</div>
+                )}
               </div>
             )}
           </div>
@@ -145,6 +257,59 @@ export function TrackCustomizer({
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor={`color-by-${track.id}`} className="text-xs">
+                  Color By
+                </Label>
+                <Select
+                  value={track.style.colorBy ?? 'solid'}
+                  onValueChange={(value: TrackColorMetric | 'solid') =>
+                    onUpdateTrackStyle(track.id, { colorBy: value === 'solid' ? undefined : value })
+                  }
+                >
+                  <SelectTrigger id={`color-by-${track.id}`} className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="solid">Solid color</SelectItem>
+                    {(Object.keys(COLOR_METRICS) as TrackColorMetric[]).map((metric) => (
+                      <SelectItem key={metric} value={metric}>
+                        {COLOR_METRICS[metric].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {track.style.colorBy && (
+                <div className="space-y-2">
+                  <Label htmlFor={`color-ramp-${track.id}`} className="text-xs">
+                    Color Ramp
+                  </Label>
+                  <Select
+                    value={track.style.colorRamp ?? DEFAULT_COLOR_RAMP}
+                    onValueChange={(value: ColorRampName) => onUpdateTrackStyle(track.id, { colorRamp: value })}
+                  >
+                    <SelectTrigger id={`color-ramp-${track.id}`} className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(COLOR_RAMPS) as ColorRampName[]).map((ramp) => (
+                        <SelectItem key={ramp} value={ramp}>
+                          <div className="flex items-center space-x-2">
+                            <div
+                              className="w-10 h-3 rounded-sm"
+                              style={{ backgroundImage: getRampGradientCSS(ramp) }}
+                            />
+                            <span>{COLOR_RAMPS[ramp].label}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <Label htmlFor={`width-${track.id}`} className="text-xs">
@@ -203,6 +368,46 @@ export function TrackCustomizer({
                   </SelectContent>
                 </Select>
               </div>
+
+              <TrackSplitsTable track={track} unit={paceUnit} elevationSmoothing={elevationSmoothing} />
+
+              {onTrimTrack && onSplitTrack && onSplitTrackByTimeGap && onSplitTrackByDay && onMergeTracks && (
+                <TrackEditTools
+                  track={track}
+                  otherTracks={tracks.filter(other => other.id !== track.id)}
+                  onTrim={(startIndex, endIndex) => onTrimTrack(track.id, startIndex, endIndex)}
+                  onSplit={(pointIndex) => onSplitTrack(track.id, pointIndex)}
+                  onSplitByTimeGap={(gapSeconds) => onSplitTrackByTimeGap(track.id, gapSeconds)}
+                  onSplitByDay={() => onSplitTrackByDay(track.id)}
+                  onMerge={(otherTrackId) => onMergeTracks([track.id, otherTrackId])}
+                  onPreviewChange={onEditPreviewChange}
+                />
+              )}
+
+              {onSimplifyTrack && (
+                <TrackSimplifyTools
+                  track={track}
+                  onUpdateTrackStyle={onUpdateTrackStyle}
+                  onSimplifyTrack={onSimplifyTrack}
+                />
+              )}
+
+              {onRemoveTrackPoints && (
+                <TrackOutlierTools
+                  track={track}
+                  onRemovePoints={(points) => onRemoveTrackPoints(track.id, points)}
+                  onPreviewChange={onOutlierPreviewChange}
+                />
+              )}
+
+              {onSelectClimb && (
+                <ClimbList
+                  track={track}
+                  elevationSmoothing={elevationSmoothing}
+                  selectedClimb={selectedClimb?.trackId === track.id ? selectedClimb.climb : null}
+                  onSelectClimb={(climb) => onSelectClimb(track.id, climb)}
+                />
+              )}
             </div>
           )}
         </Card>
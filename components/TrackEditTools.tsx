@@ -0,0 +1,278 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Scissors, Crop, Merge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Track, TrackPoint } from '@/types/track';
+import { buildTrackProfile, ProfilePoint } from '@/lib/track-profile';
+import { splitSegmentsByDay, splitSegmentsByTimeGap } from '@/lib/track-edit';
+import { formatDistance, formatDuration } from '@/lib/gpx-parser';
+
+export interface TrackEditPreview {
+  trackId: string;
+  points: TrackPoint[];
+  range?: [number, number];
+  // Moves one of the handles in points to a profile index, e.g. when it is dragged on the map
+  moveHandle: (handle: number, index: number) => void;
+}
+
+interface TrackEditToolsProps {
+  track: Track;
+  otherTracks: Track[];
+  onTrim: (startIndex: number, endIndex: number) => void;
+  onSplit: (pointIndex: number) => void;
+  onSplitByTimeGap: (gapSeconds: number) => void;
+  onSplitByDay: () => void;
+  onMerge: (otherTrackId: string) => void;
+  onPreviewChange?: (preview: TrackEditPreview | null) => void;
+}
+
+type EditMode = 'trim' | 'split' | 'merge';
+
+function describeSample(sample?: ProfilePoint): string {
+  if (!sample) return '';
+  if (sample.elapsed === undefined) return formatDistance(sample.distance);
+  return `${formatDistance(sample.distance)} • ${sample.elapsed > 0 ? formatDuration(sample.elapsed) : '0s'}`;
+}
+
+export function TrackEditTools({
+  track,
+  otherTracks,
+  onTrim,
+  onSplit,
+  onSplitByTimeGap,
+  onSplitByDay,
+  onMerge,
+  onPreviewChange,
+}: TrackEditToolsProps) {
+  const profile = useMemo(() => buildTrackProfile(track), [track]);
+  const lastIndex = Math.max(profile.length - 1, 0);
+  const [mode, setMode] = useState<EditMode | null>(null);
+  const [trimRange, setTrimRange] = useState<[number, number]>([0, lastIndex]);
+  const [splitIndex, setSplitIndex] = useState(Math.floor(lastIndex / 2));
+  const [gapMinutes, setGapMinutes] = useState('30');
+  const [mergeTrackId, setMergeTrackId] = useState<string>('');
+
+  const hasTime = profile.some(sample => sample.elapsed !== undefined);
+  const gapSeconds = Math.max(parseFloat(gapMinutes) || 0, 0) * 60;
+  const gapPartCount = useMemo(
+    () => (mode === 'split' && hasTime && gapSeconds > 0 ? splitSegmentsByTimeGap(track.segments, gapSeconds).length : 0),
+    [mode, hasTime, gapSeconds, track.segments]
+  );
+  const dayCount = useMemo(
+    () => (mode === 'split' && hasTime ? splitSegmentsByDay(track.segments).length : 0),
+    [mode, hasTime, track.segments]
+  );
+
+  // Reset handles when the track itself changes, e.g. after applying an edit
+  useEffect(() => {
+    setTrimRange([0, lastIndex]);
+    setSplitIndex(Math.floor(lastIndex / 2));
+  }, [lastIndex, track.id]);
+
+  const moveHandle = useCallback((handle: number, index: number) => {
+    if (mode === 'trim') {
+      // Handles can't cross, matching the slider's minStepsBetweenThumbs
+      setTrimRange(([start, end]) => (handle === 0
+        ? [Math.max(Math.min(index, end - 1), 0), end]
+        : [start, Math.min(Math.max(index, start + 1), lastIndex)]));
+    } else if (mode === 'split') {
+      setSplitIndex(Math.min(Math.max(index, 1), Math.max(lastIndex - 1, 1)));
+    }
+  }, [mode, lastIndex]);
+
+  useEffect(() => {
+    if (!onPreviewChange) return;
+
+    // Handles can briefly point past the end while a shortened track resets them
+    if (mode === 'trim' && profile[trimRange[0]] && profile[trimRange[1]]) {
+      onPreviewChange({
+        trackId: track.id,
+        points: [profile[trimRange[0]].point, profile[trimRange[1]].point],
+        range: trimRange,
+        moveHandle,
+      });
+    } else if (mode === 'split' && profile[splitIndex]) {
+      onPreviewChange({ trackId: track.id, points: [profile[splitIndex].point], moveHandle });
+    } else {
+      onPreviewChange(null);
+    }
+  }, [mode, trimRange, splitIndex, profile, track.id, moveHandle, onPreviewChange]);
+
+  useEffect(() => () => onPreviewChange?.(null), [onPreviewChange]);
+
+  const toggleMode = (nextMode: EditMode) => {
+    setMode(mode === nextMode ? null : nextMode);
+  };
+
+  if (profile.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Edit Track</Label>
+      <div className="flex gap-1">
+        <Button
+          variant={mode === 'trim' ? 'secondary' : 'outline'}
+          size="sm"
+          onClick={() => toggleMode('trim')}
+          className="flex-1 h-8 text-xs"
+        >
+          <Crop className="h-3 w-3 mr-1" />
+          Trim
+        </Button>
+        <Button
+          variant={mode === 'split' ? 'secondary' : 'outline'}
+          size="sm"
+          onClick={() => toggleMode('split')}
+          className="flex-1 h-8 text-xs"
+        >
+          <Scissors className="h-3 w-3 mr-1" />
+          Split
+        </Button>
+        <Button
+          variant={mode === 'merge' ? 'secondary' : 'outline'}
+          size="sm"
+          onClick={() => toggleMode('merge')}
+          disabled={otherTracks.length === 0}
+          className="flex-1 h-8 text-xs"
+        >
+          <Merge className="h-3 w-3 mr-1" />
+          Merge
+        </Button>
+      </div>
+
+      {mode === 'trim' && (
+        <div className="space-y-2 rounded-md border bg-white p-2">
+          <Slider
+            min={0}
+            max={lastIndex}
+            step={1}
+            minStepsBetweenThumbs={1}
+            value={trimRange}
+            onValueChange={([start, end]) => setTrimRange([start, end])}
+            className="cursor-pointer"
+          />
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>{describeSample(profile[trimRange[0]])}</span>
+            <span>{describeSample(profile[trimRange[1]])}</span>
+          </div>
+          <p className="text-xs text-gray-500">
+            Keeps {trimRange[1] - trimRange[0] + 1} of {profile.length} points
+          </p>
+          <Button
+            size="sm"
+            onClick={() => {
+              onTrim(trimRange[0], trimRange[1]);
+              setMode(null);
+            }}
+            disabled={trimRange[0] === 0 && trimRange[1] === lastIndex}
+            className="w-full h-8 text-xs"
+          >
+            Apply Trim
+          </Button>
+        </div>
+      )}
+
+      {mode === 'split' && (
+        <div className="space-y-3 rounded-md border bg-white p-2">
+          <div className="space-y-2">
+            <Slider
+              min={1}
+              max={Math.max(lastIndex - 1, 1)}
+              step={1}
+              value={[splitIndex]}
+              onValueChange={([value]) => setSplitIndex(value)}
+              className="cursor-pointer"
+            />
+            <p className="text-xs text-gray-500">{describeSample(profile[splitIndex])}</p>
+            <Button
+              size="sm"
+              onClick={() => {
+                onSplit(splitIndex);
+                setMode(null);
+              }}
+              disabled={lastIndex < 2}
+              className="w-full h-8 text-xs"
+            >
+              Split at Point
+            </Button>
+          </div>
+
+          {hasTime && (
+            <>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={gapMinutes}
+                  onChange={(e) => setGapMinutes(e.target.value)}
+                  className="h-8 w-20 text-xs"
+                  aria-label="Time gap in minutes"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    onSplitByTimeGap(gapSeconds);
+                    setMode(null);
+                  }}
+                  disabled={gapPartCount < 2}
+                  className="flex-1 h-8 text-xs"
+                >
+                  Split at gaps ({gapPartCount} parts)
+                </Button>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onSplitByDay();
+                  setMode(null);
+                }}
+                disabled={dayCount < 2}
+                className="w-full h-8 text-xs"
+              >
+                Split by day ({dayCount} {dayCount === 1 ? 'day' : 'days'})
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {mode === 'merge' && (
+        <div className="space-y-2 rounded-md border bg-white p-2">
+          <Select value={mergeTrackId} onValueChange={setMergeTrackId}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Choose a track to merge" />
+            </SelectTrigger>
+            <SelectContent>
+              {otherTracks.map(other => (
+                <SelectItem key={other.id} value={other.id}>
+                  {other.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={() => {
+              onMerge(mergeTrackId);
+              setMergeTrackId('');
+              setMode(null);
+            }}
+            disabled={!mergeTrackId}
+            className="w-full h-8 text-xs"
+          >
+            Merge Tracks
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
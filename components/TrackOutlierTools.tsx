@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Track, TrackPoint } from '@/types/track';
+import { detectOutliers, DEFAULT_OUTLIER_DETECTION, TrackOutlier } from '@/lib/track-outliers';
+
+export interface TrackOutlierPreview {
+  trackId: string;
+  outliers: TrackOutlier[];
+}
+
+interface TrackOutlierToolsProps {
+  track: Track;
+  onRemovePoints: (points: TrackPoint[]) => void;
+  onPreviewChange?: (preview: TrackOutlierPreview | null) => void;
+}
+
+export function TrackOutlierTools({ track, onRemovePoints, onPreviewChange }: TrackOutlierToolsProps) {
+  const [maxSpeedKmh, setMaxSpeedKmh] = useState(Math.round(DEFAULT_OUTLIER_DETECTION.maxSpeed * 3.6));
+  const [maxAcceleration, setMaxAcceleration] = useState(DEFAULT_OUTLIER_DETECTION.maxAcceleration);
+  const [showOnMap, setShowOnMap] = useState(false);
+
+  const hasTime = useMemo(
+    () => track.segments.some(segment => segment.points.some(point => point.time)),
+    [track.segments]
+  );
+  const outliers = useMemo(
+    () => (hasTime
+      ? detectOutliers(track.segments, { maxSpeed: maxSpeedKmh / 3.6, maxAcceleration })
+      : []),
+    [hasTime, track.segments, maxSpeedKmh, maxAcceleration]
+  );
+
+  useEffect(() => {
+    onPreviewChange?.(showOnMap && outliers.length > 0 ? { trackId: track.id, outliers } : null);
+  }, [showOnMap, outliers, track.id, onPreviewChange]);
+
+  useEffect(() => () => onPreviewChange?.(null), [onPreviewChange]);
+
+  if (!hasTime) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">GPS Spikes</Label>
+
+      <div className="flex justify-between">
+        <span className="text-xs text-gray-500">Max speed</span>
+        <span className="text-xs text-gray-500">{maxSpeedKmh} km/h</span>
+      </div>
+      <Slider
+        min={20}
+        max={400}
+        step={10}
+        value={[maxSpeedKmh]}
+        onValueChange={([value]) => setMaxSpeedKmh(value)}
+        className="cursor-pointer"
+      />
+
+      <div className="flex justify-between">
+        <span className="text-xs text-gray-500">Max acceleration</span>
+        <span className="text-xs text-gray-500">{maxAcceleration} m/s²</span>
+      </div>
+      <Slider
+        min={1}
+        max={30}
+        step={1}
+        value={[maxAcceleration]}
+        onValueChange={([value]) => setMaxAcceleration(value)}
+        className="cursor-pointer"
+      />
+
+      <p className="text-xs text-gray-500">
+        {outliers.length === 0
+          ? 'No suspicious points found.'
+          : `${outliers.length} suspicious ${outliers.length === 1 ? 'point' : 'points'} found.`}
+      </p>
+
+      {outliers.length > 0 && (
+        <div className="flex gap-1">
+          <Button
+            variant={showOnMap ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowOnMap(!showOnMap)}
+            className="flex-1 h-8 text-xs"
+          >
+            {showOnMap ? 'Hide on Map' : 'Show on Map'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRemovePoints(outliers.map(outlier => outlier.point))}
+            className="flex-1 h-8 text-xs text-destructive hover:text-destructive"
+          >
+            Remove {outliers.length}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Track, TrackSimplification, TrackStyle } from '@/types/track';
+import { simplifySegments, DEFAULT_SIMPLIFICATION } from '@/lib/track-simplify';
+import { countTrackPoints } from '@/lib/track-edit';
+
+interface TrackSimplifyToolsProps {
+  track: Track;
+  onUpdateTrackStyle: (trackId: string, style: Partial<TrackStyle>) => void;
+  onSimplifyTrack: (trackId: string, options: TrackSimplification) => void;
+}
+
+export function TrackSimplifyTools({ track, onUpdateTrackStyle, onSimplifyTrack }: TrackSimplifyToolsProps) {
+  const [options, setOptions] = useState<TrackSimplification>(track.style.simplification ?? DEFAULT_SIMPLIFICATION);
+  const isRenderOnly = !!track.style.simplification;
+
+  // Follow the map preview when it changes elsewhere, e.g. on undo or redo
+  useEffect(() => {
+    if (track.style.simplification) {
+      setOptions(track.style.simplification);
+    }
+  }, [track.style.simplification]);
+
+  const originalCount = useMemo(() => countTrackPoints(track.segments), [track.segments]);
+  const simplifiedCount = useMemo(
+    () => countTrackPoints(simplifySegments(track.segments, options)),
+    [track.segments, options]
+  );
+  const reduction = originalCount > 0 ? Math.round((1 - simplifiedCount / originalCount) * 100) : 0;
+
+  // The slider only moves the controls while dragging; the map preview updates once it is released
+  const preview = (changes: Partial<TrackSimplification>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  // While the map preview is on, committed changes go straight to the track style
+  const update = (changes: Partial<TrackSimplification>) => {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    if (isRenderOnly) {
+      onUpdateTrackStyle(track.id, { simplification: next });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`simplify-method-${track.id}`} className="text-xs">
+        Simplify
+      </Label>
+      <Select
+        value={options.method}
+        onValueChange={(value: TrackSimplification['method']) => update({ method: value })}
+      >
+        <SelectTrigger id={`simplify-method-${track.id}`} className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="douglasPeucker">Douglas-Peucker</SelectItem>
+          <SelectItem value="visvalingam">Visvalingam-Whyatt</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="flex justify-between">
+        <span className="text-xs text-gray-500">Tolerance</span>
+        <span className="text-xs text-gray-500">{options.tolerance}m</span>
+      </div>
+      <Slider
+        min={0.5}
+        max={50}
+        step={0.5}
+        value={[options.tolerance]}
+        onValueChange={([value]) => preview({ tolerance: value })}
+        onValueCommit={([value]) => update({ tolerance: value })}
+        className="cursor-pointer"
+      />
+      <p className="text-xs text-gray-500">
+        {originalCount.toLocaleString()} → {simplifiedCount.toLocaleString()} points ({reduction}% fewer)
+      </p>
+
+      <div className="flex gap-1">
+        <Button
+          variant={isRenderOnly ? 'secondary' : 'outline'}
+          size="sm"
+          onClick={() => onUpdateTrackStyle(track.id, { simplification: isRenderOnly ? undefined : options })}
+          className="flex-1 h-8 text-xs"
+          title="Simplify only how the track is drawn"
+        >
+          {isRenderOnly ? 'Map Preview On' : 'Preview on Map'}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onSimplifyTrack(track.id, options)}
+          disabled={simplifiedCount === originalCount}
+          className="flex-1 h-8 text-xs"
+          title="Remove the points from the track, including exports"
+        >
+          Apply to Track
+        </Button>
+      </div>
+    </div>
+  );
+}
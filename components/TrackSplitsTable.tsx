@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { DataExportButton } from '@/components/DataExportButton';
+import { Track } from '@/types/track';
+import { calculateSplits, splitsToCSV, SPLIT_LENGTHS } from '@/lib/track-splits';
+import { ElevationSmoothingOptions } from '@/lib/elevation-smoothing';
+import { formatDuration, formatPace, PaceUnit } from '@/lib/gpx-parser';
+import { getExportDateStamp } from '@/lib/download';
+
+interface TrackSplitsTableProps {
+  track: Track;
+  unit: PaceUnit;
+  elevationSmoothing?: ElevationSmoothingOptions;
+}
+
+export function TrackSplitsTable({ track, unit, elevationSmoothing }: TrackSplitsTableProps) {
+  const splits = useMemo(
+    () => calculateSplits(track.segments, unit, elevationSmoothing),
+    [track.segments, unit, elevationSmoothing]
+  );
+  const hasHeartRate = splits.some(split => split.averageHeartRate !== undefined);
+
+  if (splits.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Splits ({unit})</Label>
+      <div className="max-h-64 overflow-y-auto rounded border bg-white">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-gray-100 text-gray-600">
+            <tr>
+              <th className="px-2 py-1 text-left font-medium">{unit}</th>
+              <th className="px-2 py-1 text-right font-medium">Time</th>
+              <th className="px-2 py-1 text-right font-medium">Pace</th>
+              <th className="px-2 py-1 text-right font-medium">↑</th>
+              <th className="px-2 py-1 text-right font-medium">↓</th>
+              {hasHeartRate && <th className="px-2 py-1 text-right font-medium">HR</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {splits.map((split, i) => {
+              const isPartial = i === splits.length - 1 && split.distance < SPLIT_LENGTHS[unit] - 1;
+
+              return (
+                <tr key={split.index} className="border-t">
+                  <td className="px-2 py-1">
+                    {isPartial
+                      ? (split.distance / SPLIT_LENGTHS[unit]).toFixed(2)
+                      : split.index}
+                  </td>
+                  <td className="px-2 py-1 text-right">{formatDuration(split.duration)}</td>
+                  <td className="px-2 py-1 text-right">{formatPace(split.pace, unit)}</td>
+                  <td className="px-2 py-1 text-right">{split.elevationGain.toFixed(0)}m</td>
+                  <td className="px-2 py-1 text-right">{split.elevationLoss.toFixed(0)}m</td>
+                  {hasHeartRate && (
+                    <td className="px-2 py-1 text-right">
+                      {split.averageHeartRate !== undefined ? split.averageHeartRate.toFixed(0) : '–'}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <DataExportButton
+        label="Export Splits as CSV"
+        fileName={`${track.name.replace(/[^\w.-]+/g, '_')}-splits-${getExportDateStamp()}.csv`}
+        createBlob={() => new Blob([splitsToCSV(splits, unit)], { type: 'text/csv' })}
+      />
+    </div>
+  );
+}
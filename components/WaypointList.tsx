@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import { Waypoint } from '@/types/waypoint';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { X, Eye, EyeOff, Flag } from 'lucide-react';
+
+interface WaypointListProps {
+  waypoints: Waypoint[];
+  onRemoveWaypoint: (waypointId: string) => void;
+  onToggleVisibility: (waypointId: string) => void;
+  onClearAll: () => void;
+}
+
+export function WaypointList({ waypoints, onRemoveWaypoint, onToggleVisibility, onClearAll }: WaypointListProps) {
+  if (waypoints.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold">Waypoints ({waypoints.length})</h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClearAll}
+          className="text-xs text-destructive hover:text-destructive"
+        >
+          Clear All
+        </Button>
+      </div>
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {waypoints.map((waypoint) => (
+          <div
+            key={waypoint.id}
+            className="flex items-start space-x-2 p-2 bg-gray-50 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            <Flag className={`h-4 w-4 mt-0.5 flex-shrink-0 ${waypoint.visible ? 'text-emerald-600' : 'text-gray-300'}`} />
+
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate" title={waypoint.name}>
+                {waypoint.name || 'Unnamed waypoint'}
+              </p>
+              {waypoint.description && (
+                <p className="text-xs text-gray-500 truncate" title={waypoint.description}>
+                  {waypoint.description}
+                </p>
+              )}
+              <p className="text-xs text-gray-400 mt-1">
+                {waypoint.lat.toFixed(4)}, {waypoint.lon.toFixed(4)}
+                {waypoint.ele !== undefined && ` • ${waypoint.ele.toFixed(0)}m`}
+                {waypoint.symbol && ` • ${waypoint.symbol}`}
+              </p>
+            </div>
+
+            <div className="flex flex-col gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onToggleVisibility(waypoint.id)}
+                className="h-6 w-6 p-0"
+                title={waypoint.visible ? 'Hide waypoint' : 'Show waypoint'}
+              >
+                {waypoint.visible ? (
+                  <Eye className="h-3 w-3" />
+                ) : (
+                  <EyeOff className="h-3 w-3" />
+                )}
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRemoveWaypoint(waypoint.id)}
+                className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+                title="Remove waypoint"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+
+interface EditHistoryOptions {
+  // Changes closer together than this are undone as one step (slider drags, batch imports)
+  coalesceMs?: number;
+  limit?: number;
+}
+
+// Records snapshots of app state whenever it changes, so every edit made through the
+// data hooks can be undone without each operation having to describe its own inverse.
+export function useEditHistory<T extends Record<string, unknown>>(
+  state: T,
+  restore: (snapshot: T) => void,
+  { coalesceMs = 500, limit = 100 }: EditHistoryOptions = {}
+) {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const current = useRef(state);
+  const lastChangeTime = useRef(0);
+  const restoringTo = useRef<T | null>(null);
+  const [counts, setCounts] = useState({ undo: 0, redo: 0 });
+
+  const updateCounts = useCallback(() => {
+    setCounts({ undo: past.current.length, redo: future.current.length });
+  }, []);
+
+  useEffect(() => {
+    if (state === current.current) return;
+
+    const restoring = restoringTo.current;
+    restoringTo.current = null;
+    if (restoring && isSameSnapshot(restoring, state)) {
+      current.current = state;
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastChangeTime.current >= coalesceMs || past.current.length === 0) {
+      past.current.push(current.current);
+      if (past.current.length > limit) {
+        past.current.shift();
+      }
+    }
+    future.current = [];
+    lastChangeTime.current = now;
+    current.current = state;
+    updateCounts();
+  }, [state, coalesceMs, limit, updateCounts]);
+
+  const undo = useCallback(() => {
+    const previous = past.current.pop();
+    if (!previous) return;
+
+    future.current.push(current.current);
+    restoringTo.current = previous;
+    lastChangeTime.current = 0;
+    restore(previous);
+    updateCounts();
+  }, [restore, updateCounts]);
+
+  const redo = useCallback(() => {
+    const next = future.current.pop();
+    if (!next) return;
+
+    past.current.push(current.current);
+    restoringTo.current = next;
+    lastChangeTime.current = 0;
+    restore(next);
+    updateCounts();
+  }, [restore, updateCounts]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      // Leave text fields to their own native undo
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    undo,
+    redo,
+    canUndo: counts.undo > 0,
+    canRedo: counts.redo > 0,
+  };
+}
+
+function isSameSnapshot<T extends Record<string, unknown>>(a: T, b: T): boolean {
+  return Object.keys(a).every(key => a[key] === b[key]);
+}
@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+
+// Creates an object URL for a Blob while the calling component is mounted and revokes it
+// afterwards, so photo data held in state never needs its URLs tracked by hand.
+export function useObjectUrl(blob?: Blob | null): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
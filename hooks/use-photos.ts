@@ -1,81 +1,33 @@
 import { useState, useCallback } from 'react';
-import { Photo } from '@/types/photo';
-import { extractPhotoMetadata, createThumbnail, fileToDataUrl } from '@/lib/exif-parser';
+import { Photo, PhotoLocationUpdate } from '@/types/photo';
+import { processPhotoFiles, PhotoPipelineOptions } from '@/lib/photo-pipeline';
+import { createId } from '@/lib/id';
 
 export function usePhotos() {
   const [photos, setPhotos] = useState<Photo[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
 
-  const addPhoto = useCallback(async (file: File): Promise<Photo | null> => {
+  const addMultiplePhotos = useCallback(async (
+    files: File[],
+    options: PhotoPipelineOptions = {}
+  ): Promise<Photo[]> => {
     setIsProcessing(true);
+    
     try {
-      const metadata = await extractPhotoMetadata(file);
-      const dataUrl = await fileToDataUrl(file);
-      
-      // Try to create thumbnail, but don't fail if it doesn't work
-      let thumbnailUrl: string | null = null;
-      try {
-        thumbnailUrl = await createThumbnail(file, 200);
-      } catch (error) {
-        console.warn('Thumbnail creation failed, using original image:', error);
-      }
-      
-      const newPhoto: Photo = {
-        id: `photo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      const processed = await processPhotoFiles(files, options);
+      const processedPhotos: Photo[] = processed.map(({ file, metadata, thumbnail }) => ({
+        id: createId('photo'),
         name: file.name,
-        dataUrl,
-        thumbnailUrl: thumbnailUrl || undefined,
+        file,
+        thumbnail,
         location: metadata.location,
+        originalLocation: metadata.location,
         timestamp: metadata.timestamp,
         visible: true,
         size: file.size,
-      };
-      
-      setPhotos(prev => [...prev, newPhoto]);
-      return newPhoto;
-    } catch (error) {
-      console.error('Error processing photo:', error);
-      return null;
-    } finally {
-      setIsProcessing(false);
-    }
-  }, []);
-
-  const addMultiplePhotos = useCallback(async (files: File[]): Promise<Photo[]> => {
-    setIsProcessing(true);
-    const processedPhotos: Photo[] = [];
-    
-    try {
-      for (const file of files) {
-        try {
-          const metadata = await extractPhotoMetadata(file);
-          const dataUrl = await fileToDataUrl(file);
-          
-          // Try to create thumbnail, but don't fail if it doesn't work
-          let thumbnailUrl: string | null = null;
-          try {
-            thumbnailUrl = await createThumbnail(file, 200);
-          } catch (error) {
-            console.warn(`Thumbnail creation failed for ${file.name}, using original image:`, error);
-          }
-          
-          const newPhoto: Photo = {
-            id: `photo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            name: file.name,
-            dataUrl,
-            thumbnailUrl: thumbnailUrl || undefined,
-            location: metadata.location,
-            timestamp: metadata.timestamp,
-            visible: true,
-            size: file.size,
-          };
-          
-          processedPhotos.push(newPhoto);
-        } catch (error) {
-          console.error(`Error processing photo ${file.name}:`, error);
-        }
-      }
+      }));
       
+      // Photos finished before a cancel are still kept
       if (processedPhotos.length > 0) {
         setPhotos(prev => [...prev, ...processedPhotos]);
       }
@@ -86,6 +38,11 @@ export function usePhotos() {
     }
   }, []);
 
+  const addPhoto = useCallback(async (file: File): Promise<Photo | null> => {
+    const [photo] = await addMultiplePhotos([file]);
+    return photo ?? null;
+  }, [addMultiplePhotos]);
+
   const removePhoto = useCallback((photoId: string) => {
     setPhotos(prev => prev.filter(p => p.id !== photoId));
   }, []);
@@ -98,10 +55,24 @@ export function usePhotos() {
     ));
   }, []);
 
+  const setPhotoLocations = useCallback((updates: PhotoLocationUpdate[]) => {
+    const byId = new Map(updates.map(update => [update.photoId, update]));
+    setPhotos(prev => prev.map(photo => {
+      const update = byId.get(photo.id);
+      return update
+        ? { ...photo, location: update.location, gpsTime: update.gpsTime ?? photo.gpsTime }
+        : photo;
+    }));
+  }, []);
+
   const clearAllPhotos = useCallback(() => {
     setPhotos([]);
   }, []);
 
+  const restorePhotos = useCallback((snapshot: Photo[]) => {
+    setPhotos(snapshot);
+  }, []);
+
   const getPhotosWithLocation = useCallback(() => {
     return photos.filter(p => p.location !== null && p.visible);
   }, [photos]);
@@ -113,7 +84,9 @@ export function usePhotos() {
     addMultiplePhotos,
     removePhoto,
     togglePhotoVisibility,
+    setPhotoLocations,
     clearAllPhotos,
+    restorePhotos,
     getPhotosWithLocation,
   };
 }
\ No newline at end of file
@@ -1,25 +1,81 @@
-import { useState, useCallback } from 'react';
-import { Track, TrackStyle } from '@/types/track';
-
-const DEFAULT_STYLE: TrackStyle = {
-  color: '#E53E3E',
-  width: 3,
-  opacity: 1,
-  lineStyle: 'solid',
-};
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Track, TrackPoint, TrackSegment, TrackSimplification, TrackStats, TrackStyle } from '@/types/track';
+import { calculateTrackStats, TrackStatsOptions } from '@/lib/track-stats';
+import { calculateTrackStatsAsync } from '@/lib/track-stats-async';
+import {
+  trimSegments,
+  splitSegmentsAt,
+  splitSegmentsByTimeGap,
+  splitSegmentsByDay,
+  mergeTrackSegments,
+} from '@/lib/track-edit';
+import { simplifySegments } from '@/lib/track-simplify';
+import { removePoints } from '@/lib/track-outliers';
+import { DEFAULT_TRACK_STYLE } from '@/lib/track-style';
+import { createId } from '@/lib/id';
 
 export function useTracks() {
   const [tracks, setTracks] = useState<Track[]>([]);
+  const [statsOptions, setStatsOptions] = useState<TrackStatsOptions>({});
+  const tracksRef = useRef(tracks);
+  // Options of the latest update, which may still be computing
+  const pendingStatsOptionsRef = useRef(statsOptions);
+  const statsAbortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    tracksRef.current = tracks;
+  }, [tracks]);
 
-  const addTrack = useCallback((track: Omit<Track, 'id' | 'style' | 'visible'>) => {
+  // Parsers compute stats with the current stats options (off the main thread for GPX),
+  // so they are only calculated here for tracks that arrive without them
+  const addTrack = useCallback((
+    track: Omit<Track, 'id' | 'style' | 'visible' | 'stats'> & { style?: Partial<TrackStyle>; stats?: TrackStats }
+  ) => {
     const newTrack: Track = {
       ...track,
-      id: `track-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      style: { ...DEFAULT_STYLE },
+      id: createId('track'),
+      style: { ...DEFAULT_TRACK_STYLE, ...track.style },
       visible: true,
+      stats: track.stats ?? calculateTrackStats(track.segments, statsOptions),
     };
     setTracks(prev => [...prev, newTrack]);
     return newTrack;
+  }, [statsOptions]);
+
+  // Stats are recomputed in a worker, and the new options are applied together with the
+  // new stats so the two never disagree (and undo treats them as one step)
+  const updateStatsOptions = useCallback(async (options: Partial<TrackStatsOptions>) => {
+    const nextOptions = { ...pendingStatsOptionsRef.current, ...options };
+    pendingStatsOptionsRef.current = nextOptions;
+
+    statsAbortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    statsAbortControllerRef.current = abortController;
+
+    const snapshot = tracksRef.current;
+    let stats: TrackStats[];
+    try {
+      stats = await calculateTrackStatsAsync(
+        snapshot.map(track => track.segments),
+        nextOptions,
+        abortController.signal
+      );
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error('Error calculating track stats:', error);
+      }
+      return;
+    }
+    if (abortController.signal.aborted) return;
+    statsAbortControllerRef.current = null;
+
+    const statsBySegments = new Map(snapshot.map((track, index) => [track.segments, stats[index]]));
+    setStatsOptions(nextOptions);
+    setTracks(prev => prev.map(track => ({
+      ...track,
+      // Tracks added or edited in the meantime are rare enough to recompute here
+      stats: statsBySegments.get(track.segments) ?? calculateTrackStats(track.segments, nextOptions),
+    })));
   }, []);
 
   const removeTrack = useCallback((trackId: string) => {
@@ -42,16 +98,143 @@ export function useTracks() {
     ));
   }, []);
 
+  // Replaces a track in place with edited parts; laps are dropped since they no longer line up
+  const replaceTrack = useCallback((
+    trackId: string,
+    createParts: (track: Track) => { name: string; segments: TrackSegment[] }[]
+  ) => {
+    setTracks(prev => prev.flatMap(track => {
+      if (track.id !== trackId) return [track];
+
+      const parts = createParts(track);
+      return parts.map((part, index) => ({
+        ...track,
+        id: parts.length === 1 && index === 0
+          ? track.id
+          : createId('track'),
+        name: part.name,
+        segments: part.segments,
+        stats: calculateTrackStats(part.segments, statsOptions),
+        laps: undefined,
+      }));
+    }));
+  }, [statsOptions]);
+
+  const trimTrack = useCallback((trackId: string, startIndex: number, endIndex: number) => {
+    replaceTrack(trackId, track => [{
+      name: track.name,
+      segments: trimSegments(track.segments, startIndex, endIndex),
+    }]);
+  }, [replaceTrack]);
+
+  const splitTrack = useCallback((trackId: string, pointIndex: number) => {
+    replaceTrack(trackId, track => splitSegmentsAt(track.segments, pointIndex).map((segments, index) => ({
+      name: `${track.name} (${index + 1})`,
+      segments,
+    })));
+  }, [replaceTrack]);
+
+  const splitTrackByTimeGap = useCallback((trackId: string, gapSeconds: number) => {
+    replaceTrack(trackId, track => {
+      const parts = splitSegmentsByTimeGap(track.segments, gapSeconds);
+      return parts.map((segments, index) => ({
+        name: parts.length > 1 ? `${track.name} (${index + 1})` : track.name,
+        segments,
+      }));
+    });
+  }, [replaceTrack]);
+
+  const splitTrackByDay = useCallback((trackId: string) => {
+    replaceTrack(trackId, track => {
+      const parts = splitSegmentsByDay(track.segments);
+      return parts.map(segments => {
+        const day = segments[0].points.find(point => point.time)?.time;
+        return {
+          name: parts.length > 1 && day ? `${track.name} – ${day.toLocaleDateString()}` : track.name,
+          segments,
+        };
+      });
+    });
+  }, [replaceTrack]);
+
+  // Replaces the points for good, so the render-only setting is cleared as well
+  const simplifyTrack = useCallback((trackId: string, options: TrackSimplification) => {
+    setTracks(prev => prev.map(track => {
+      if (track.id !== trackId) return track;
+
+      const segments = simplifySegments(track.segments, options);
+      return {
+        ...track,
+        segments,
+        style: { ...track.style, simplification: undefined },
+        stats: calculateTrackStats(segments, statsOptions),
+      };
+    }));
+  }, [statsOptions]);
+
+  const removeTrackPoints = useCallback((trackId: string, points: TrackPoint[]) => {
+    setTracks(prev => prev.map(track => {
+      if (track.id !== trackId) return track;
+
+      const segments = removePoints(track.segments, points);
+      return { ...track, segments, stats: calculateTrackStats(segments, statsOptions) };
+    }));
+  }, [statsOptions]);
+
+  // The merged track takes the place and style of the first track in the list
+  const mergeTracks = useCallback((trackIds: string[]) => {
+    setTracks(prev => {
+      const toMerge = trackIds
+        .map(id => prev.find(track => track.id === id))
+        .filter((track): track is Track => !!track);
+      if (toMerge.length < 2) return prev;
+
+      const segments = mergeTrackSegments(toMerge);
+      const merged: Track = {
+        ...toMerge[0],
+        id: createId('track'),
+        name: toMerge.map(track => track.name).join(' + '),
+        segments,
+        stats: calculateTrackStats(segments, statsOptions),
+        laps: undefined,
+      };
+
+      return prev.flatMap(track => {
+        if (track.id === toMerge[0].id) return [merged];
+        return trackIds.includes(track.id) ? [] : [track];
+      });
+    });
+  }, [statsOptions]);
+
   const clearAllTracks = useCallback(() => {
     setTracks([]);
   }, []);
 
+  // Used by undo/redo; stats options travel with the tracks so their stats stay consistent
+  const restoreTracks = useCallback((snapshot: Track[], snapshotStatsOptions: TrackStatsOptions) => {
+    statsAbortControllerRef.current?.abort();
+    statsAbortControllerRef.current = null;
+    pendingStatsOptionsRef.current = snapshotStatsOptions;
+    setTracks(snapshot);
+    setStatsOptions(snapshotStatsOptions);
+  }, []);
+
   return {
     tracks,
+    statsOptions,
     addTrack,
     removeTrack,
     updateTrackStyle,
     toggleTrackVisibility,
     clearAllTracks,
+    restoreTracks,
+    updateStatsOptions,
+    trimTrack,
+    splitTrack,
+    splitTrackByTimeGap,
+    splitTrackByDay,
+    mergeTracks,
+    simplifyTrack,
+    removeTrackPoints,
   };
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { useState, useCallback } from 'react';
+import { Waypoint } from '@/types/waypoint';
+import { createId } from '@/lib/id';
+
+export function useWaypoints() {
+  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
+
+  const addWaypoints = useCallback((newWaypoints: Omit<Waypoint, 'id' | 'visible'>[]) => {
+    const added: Waypoint[] = newWaypoints.map(waypoint => ({
+      ...waypoint,
+      id: createId('waypoint'),
+      visible: true,
+    }));
+    setWaypoints(prev => [...prev, ...added]);
+    return added;
+  }, []);
+
+  const removeWaypoint = useCallback((waypointId: string) => {
+    setWaypoints(prev => prev.filter(w => w.id !== waypointId));
+  }, []);
+
+  const toggleWaypointVisibility = useCallback((waypointId: string) => {
+    setWaypoints(prev => prev.map(waypoint => 
+      waypoint.id === waypointId 
+        ? { ...waypoint, visible: !waypoint.visible }
+        : waypoint
+    ));
+  }, []);
+
+  const clearAllWaypoints = useCallback(() => {
+    setWaypoints([]);
+  }, []);
+
+  const restoreWaypoints = useCallback((snapshot: Waypoint[]) => {
+    setWaypoints(snapshot);
+  }, []);
+
+  return {
+    waypoints,
+    addWaypoints,
+    removeWaypoint,
+    toggleWaypointVisibility,
+    clearAllWaypoints,
+    restoreWaypoints,
+  };
+}
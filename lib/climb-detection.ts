@@ -0,0 +1,134 @@
+import { TrackPoint } from '@/types/track';
+import { ProfilePoint } from '@/lib/track-profile';
+import {
+  ElevationSmoothingOptions,
+  DEFAULT_ELEVATION_SMOOTHING,
+  smoothElevations,
+} from '@/lib/elevation-smoothing';
+
+export type ClimbCategory = 'HC' | '1' | '2' | '3' | '4';
+
+export interface Climb {
+  startDistance: number;
+  endDistance: number;
+  length: number;
+  elevationGain: number;
+  startElevation: number;
+  endElevation: number;
+  averageGradient: number;
+  maxGradient: number;
+  category: ClimbCategory;
+  points: TrackPoint[];
+}
+
+// Score thresholds for length (m) x average gradient (%), highest category first
+const CATEGORY_THRESHOLDS: { category: ClimbCategory; minScore: number }[] = [
+  { category: 'HC', minScore: 80000 },
+  { category: '1', minScore: 64000 },
+  { category: '2', minScore: 32000 },
+  { category: '3', minScore: 16000 },
+  { category: '4', minScore: 8000 },
+];
+
+const MIN_AVERAGE_GRADIENT = 3;
+const MIN_CLIMB_LENGTH = 300;
+// A climb ends once the road drops this far below its highest point
+const MIN_DESCENT_TOLERANCE = 10;
+const DESCENT_TOLERANCE_RATIO = 0.2;
+// Max gradient is measured over at least this distance so GPS noise doesn't spike it
+const MAX_GRADIENT_WINDOW = 100;
+
+export function getClimbCategoryLabel(category: ClimbCategory): string {
+  return category === 'HC' ? 'HC' : `Cat ${category}`;
+}
+
+export function detectClimbs(
+  profile: ProfilePoint[],
+  elevationSmoothing: ElevationSmoothingOptions = DEFAULT_ELEVATION_SMOOTHING
+): Climb[] {
+  const samples = profile.filter(sample => sample.point.ele !== undefined);
+  if (samples.length < 2) {
+    return [];
+  }
+
+  const elevations = smoothElevations(samples.map(sample => sample.point.ele as number), elevationSmoothing);
+  const climbs: Climb[] = [];
+  let valley = 0;
+  let peak = 0;
+
+  const finishClimb = () => {
+    if (peak > valley) {
+      const climb = createClimb(samples, elevations, valley, peak);
+      if (climb) climbs.push(climb);
+    }
+  };
+
+  for (let i = 1; i < samples.length; i++) {
+    const elevation = elevations[i];
+    const gain = elevations[peak] - elevations[valley];
+    const tolerance = Math.max(MIN_DESCENT_TOLERANCE, gain * DESCENT_TOLERANCE_RATIO);
+
+    if (peak === valley && elevation <= elevations[valley]) {
+      // Still on flat or descending ground, so the climb hasn't started yet
+      valley = i;
+      peak = i;
+    } else if (elevation > elevations[peak]) {
+      peak = i;
+    } else if (elevations[peak] - elevation > tolerance || elevation < elevations[valley]) {
+      finishClimb();
+      valley = i;
+      peak = i;
+    }
+  }
+  finishClimb();
+
+  return climbs;
+}
+
+function createClimb(
+  samples: ProfilePoint[],
+  elevations: number[],
+  start: number,
+  end: number
+): Climb | null {
+  const length = samples[end].distance - samples[start].distance;
+  const elevationGain = elevations[end] - elevations[start];
+  if (length < MIN_CLIMB_LENGTH || elevationGain <= 0) {
+    return null;
+  }
+
+  const averageGradient = (elevationGain / length) * 100;
+  const score = length * averageGradient;
+  const category = CATEGORY_THRESHOLDS.find(threshold => score >= threshold.minScore)?.category;
+  if (averageGradient < MIN_AVERAGE_GRADIENT || !category) {
+    return null;
+  }
+
+  let maxGradient = averageGradient;
+  let windowStart = start;
+  for (let i = start + 1; i <= end; i++) {
+    while (
+      windowStart < i - 1 &&
+      samples[i].distance - samples[windowStart + 1].distance >= MAX_GRADIENT_WINDOW
+    ) {
+      windowStart++;
+    }
+    const windowLength = samples[i].distance - samples[windowStart].distance;
+    if (windowLength >= MAX_GRADIENT_WINDOW) {
+      maxGradient = Math.max(maxGradient, ((elevations[i] - elevations[windowStart]) / windowLength) * 100);
+    }
+  }
+
+  return {
+    startDistance: samples[start].distance,
+    endDistance: samples[end].distance,
+    length,
+    elevationGain,
+    startElevation: elevations[start],
+    endElevation: elevations[end],
+    averageGradient,
+    maxGradient,
+    category,
+    points: samples.slice(start, end + 1).map(sample => sample.point),
+  };
+}
@@ -0,0 +1,32 @@
+import { ColorRampName } from '@/types/track';
+
+export const COLOR_RAMPS: Record<ColorRampName, { label: string; stops: string[] }> = {
+  viridis: { label: 'Viridis', stops: ['#440154', '#3B528B', '#21908C', '#5DC863', '#FDE725'] },
+  heat: { label: 'Heat', stops: ['#FFFFB2', '#FECC5C', '#FD8D3C', '#F03B20', '#BD0026'] },
+  redYellowGreen: { label: 'Red–Yellow–Green', stops: ['#D7191C', '#FDAE61', '#FFFFBF', '#A6D96A', '#1A9641'] },
+  blueRed: { label: 'Blue–Red', stops: ['#2C7BB6', '#ABD9E9', '#FFFFBF', '#FDAE61', '#D7191C'] },
+};
+
+export const DEFAULT_COLOR_RAMP: ColorRampName = 'viridis';
+
+// Samples the ramp at t in [0, 1] with linear interpolation between stops
+export function getRampColor(rampName: ColorRampName, t: number): string {
+  const stops = COLOR_RAMPS[rampName].stops;
+  const position = Math.min(Math.max(t, 0), 1) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const from = hexToRgb(stops[index]);
+  const to = hexToRgb(stops[index + 1]);
+  const fraction = position - index;
+
+  const channels = from.map((channel, i) => Math.round(channel + (to[i] - channel) * fraction));
+  return `#${channels.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function getRampGradientCSS(rampName: ColorRampName): string {
+  return `linear-gradient(to right, ${COLOR_RAMPS[rampName].stops.join(', ')})`;
+}
+
+function hexToRgb(hex: string): number[] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
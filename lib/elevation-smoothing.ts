@@ -0,0 +1,83 @@
+export interface ElevationSmoothingOptions {
+  // Centered moving average width in points; 1 disables averaging
+  movingAverageWindow: number;
+  // Minimum climb or descent (metres) before it is counted towards gain/loss
+  hysteresis: number;
+  rejectOutliers: boolean;
+  // Deviation (metres) from the local median that marks a reading as an outlier
+  outlierThreshold: number;
+}
+
+export const DEFAULT_ELEVATION_SMOOTHING: ElevationSmoothingOptions = {
+  movingAverageWindow: 5,
+  hysteresis: 3,
+  rejectOutliers: true,
+  outlierThreshold: 30,
+};
+
+const OUTLIER_MEDIAN_RADIUS = 2;
+
+export function smoothElevations(elevations: number[], options: ElevationSmoothingOptions): number[] {
+  let values = elevations;
+
+  if (options.rejectOutliers) {
+    values = values.map((value, i) => {
+      const median = getMedian(values.slice(
+        Math.max(0, i - OUTLIER_MEDIAN_RADIUS),
+        i + OUTLIER_MEDIAN_RADIUS + 1
+      ));
+      return Math.abs(value - median) > options.outlierThreshold ? median : value;
+    });
+  }
+
+  const radius = Math.floor(Math.max(1, options.movingAverageWindow) / 2);
+  if (radius > 0) {
+    const source = values;
+    values = source.map((_, i) => {
+      // The window is truncated at the ends instead of padding with repeated values
+      const start = Math.max(0, i - radius);
+      const end = Math.min(source.length, i + radius + 1);
+      let sum = 0;
+      for (let j = start; j < end; j++) {
+        sum += source[j];
+      }
+      return sum / (end - start);
+    });
+  }
+
+  return values;
+}
+
+export function calculateElevationChange(
+  elevations: number[],
+  hysteresis: number
+): { gain: number; loss: number } {
+  let gain = 0;
+  let loss = 0;
+  if (elevations.length === 0) {
+    return { gain, loss };
+  }
+
+  // Only moves of at least `hysteresis` from the last accepted level are counted
+  let reference = elevations[0];
+  for (let i = 1; i < elevations.length; i++) {
+    const diff = elevations[i] - reference;
+    if (diff >= hysteresis && diff > 0) {
+      gain += diff;
+      reference = elevations[i];
+    } else if (-diff >= hysteresis && diff < 0) {
+      loss -= diff;
+      reference = elevations[i];
+    }
+  }
+
+  return { gain, loss };
+}
+
+function getMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
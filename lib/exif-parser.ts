@@ -19,7 +19,7 @@ export async function extractPhotoMetadata(file: File): Promise<PhotoMetadata> {
   try {
     const exifData = await exifr.parse(file, {
       gps: true,
-      pick: ['DateTimeOriginal', 'Make', 'Model', 'Orientation', 'GPSLatitude', 'GPSLongitude'],
+      pick: ['DateTimeOriginal', 'Make', 'Model', 'Orientation', 'GPSLatitude', 'GPSLongitude', 'GPSAltitude', 'GPSAltitudeRef'],
     });
 
     let location: PhotoLocation | null = null;
@@ -29,6 +29,13 @@ export async function extractPhotoMetadata(file: File): Promise<PhotoMetadata> {
         lat: exifData.latitude,
         lon: exifData.longitude,
       };
+      if (typeof exifData.GPSAltitude === 'number') {
+        // exifr leaves the BYTE ref as a one-element array
+        const altitudeRef = exifData.GPSAltitudeRef instanceof Uint8Array
+          ? exifData.GPSAltitudeRef[0]
+          : exifData.GPSAltitudeRef;
+        location.ele = altitudeRef === 1 ? -exifData.GPSAltitude : exifData.GPSAltitude;
+      }
     }
 
     const timestamp = exifData?.DateTimeOriginal ? new Date(exifData.DateTimeOriginal) : undefined;
@@ -54,12 +61,14 @@ export async function extractPhotoMetadata(file: File): Promise<PhotoMetadata> {
   }
 }
 
-async function convertHeicToJpeg(file: File): Promise<File | Blob> {
-  const isHeic = /\.(heic|heif)$/i.test(file.name) || 
-                 file.type === 'image/heic' || 
-                 file.type === 'image/heif';
-  
-  if (!isHeic) {
+export function isHeicFile(file: File): boolean {
+  return /\.(heic|heif)$/i.test(file.name) || 
+         file.type === 'image/heic' || 
+         file.type === 'image/heif';
+}
+
+export async function convertHeicToJpeg(file: File): Promise<File | Blob> {
+  if (!isHeicFile(file)) {
     return file;
   }
 
@@ -86,7 +95,7 @@ async function convertHeicToJpeg(file: File): Promise<File | Blob> {
   }
 }
 
-export function createThumbnail(file: File, maxSize: number = 200): Promise<string | null> {
+export function createThumbnail(file: File, maxSize: number = 200): Promise<Blob | null> {
   return new Promise(async (resolve) => {
     console.log(`Creating thumbnail for: ${file.name}, type: ${file.type}, size: ${file.size}`);
     
@@ -102,16 +111,8 @@ export function createThumbnail(file: File, maxSize: number = 200): Promise<stri
       const processedFile = await convertHeicToJpeg(file);
       console.log('File after processing:', processedFile);
 
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-      const result = e.target?.result;
-      
-      if (!result || typeof result !== 'string') {
-        console.error('Invalid FileReader result');
-        resolve(null);
-        return;
-      }
+      // Read the image through an object URL rather than a base64 copy of the whole file
+      const sourceUrl = URL.createObjectURL(processedFile);
 
       // Create image with timeout
       const img = new Image();
@@ -120,6 +121,7 @@ export function createThumbnail(file: File, maxSize: number = 200): Promise<stri
       
       const cleanup = () => {
         if (timeoutId) clearTimeout(timeoutId);
+        URL.revokeObjectURL(sourceUrl);
       };
       
       img.onload = () => {
@@ -155,9 +157,14 @@ export function createThumbnail(file: File, maxSize: number = 200): Promise<stri
           
           ctx.drawImage(img, 0, 0, width, height);
           
-          const thumbnailDataUrl = canvas.toDataURL('image/jpeg', 0.8);
-          console.log(`Thumbnail created successfully for: ${file.name}`);
-          resolve(thumbnailDataUrl);
+          canvas.toBlob((thumbnail) => {
+            if (thumbnail) {
+              console.log(`Thumbnail created successfully for: ${file.name}`);
+            } else {
+              console.error('Canvas could not be encoded for thumbnail');
+            }
+            resolve(thumbnail);
+          }, 'image/jpeg', 0.8);
         } catch (error) {
           console.error('Error creating thumbnail:', error);
           resolve(null);
@@ -174,45 +181,14 @@ export function createThumbnail(file: File, maxSize: number = 200): Promise<stri
       // Set timeout for image loading
       timeoutId = setTimeout(() => {
         console.warn('Image loading timeout for thumbnail');
+        URL.revokeObjectURL(sourceUrl);
         resolve(null);
       }, 5000);
       
-      img.src = result;
-    };
-    
-    reader.onerror = (error) => {
-      console.error('Failed to read file for thumbnail:', error);
-      resolve(null);
-    };
-    
-      try {
-        reader.readAsDataURL(processedFile);
-      } catch (error) {
-        console.error('Error starting file read:', error);
-        resolve(null);
-      }
+      img.src = sourceUrl;
     } catch (error) {
       console.error('Error in thumbnail creation process:', error);
       resolve(null);
     }
   });
 }
-
-export async function fileToDataUrl(file: File): Promise<string> {
-  // Convert HEIC to JPEG if necessary before creating data URL
-  const processedFile = await convertHeicToJpeg(file);
-  
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      resolve(e.target?.result as string);
-    };
-    
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'));
-    };
-    
-    reader.readAsDataURL(processedFile);
-  });
-}
\ No newline at end of file
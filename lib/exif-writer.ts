@@ -0,0 +1,297 @@
+import { Photo, PhotoLocation } from '@/types/photo';
+import { convertHeicToJpeg } from '@/lib/exif-parser';
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const TAG_GPS_IFD = 0x8825;
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // Encoded value; four bytes or fewer are stored inside the entry itself
+  value: Uint8Array;
+}
+
+export interface GpsExifData extends PhotoLocation {
+  timestamp?: Date;
+}
+
+// Adds GPS tags to a JPEG without disturbing the rest of its metadata. The existing
+// IFD0 is copied to the end of the EXIF block with a pointer to a new GPS IFD, so every
+// offset already in the file (including maker notes) stays valid.
+export function writeGpsExif(jpeg: Uint8Array, gps: GpsExifData): Uint8Array {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const { exifSegment, insertAt } = findExifSegment(jpeg);
+  const existingTiff = exifSegment
+    ? jpeg.subarray(exifSegment.start + 10, exifSegment.end)
+    : null;
+  const tiff = appendGpsIfd(existingTiff && isValidTiff(existingTiff) ? existingTiff : null, gps);
+
+  const segmentLength = 2 + EXIF_HEADER.length + tiff.length;
+  if (segmentLength > 0xffff) {
+    throw new Error('EXIF data is too large to update');
+  }
+
+  const segment = new Uint8Array(2 + segmentLength);
+  segment.set([0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff]);
+  segment.set(EXIF_HEADER, 4);
+  segment.set(tiff, 4 + EXIF_HEADER.length);
+
+  const before = jpeg.subarray(0, exifSegment ? exifSegment.start : insertAt);
+  const after = jpeg.subarray(exifSegment ? exifSegment.end : insertAt);
+  const result = new Uint8Array(before.length + segment.length + after.length);
+  result.set(before, 0);
+  result.set(segment, before.length);
+  result.set(after, before.length + segment.length);
+  return result;
+}
+
+function findExifSegment(jpeg: Uint8Array): {
+  exifSegment: { start: number; end: number } | null;
+  insertAt: number;
+} {
+  let offset = 2;
+  // A new EXIF segment goes after any JFIF header, which must come first
+  let insertAt = 2;
+
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+    const marker = jpeg[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    const end = offset + 2 + length;
+
+    if (marker === 0xe1 && EXIF_HEADER.every((byte, i) => jpeg[offset + 4 + i] === byte)) {
+      return { exifSegment: { start: offset, end }, insertAt };
+    }
+    if (marker === 0xe0 && insertAt === offset) {
+      insertAt = end;
+    }
+    offset = end;
+  }
+
+  return { exifSegment: null, insertAt };
+}
+
+function isValidTiff(tiff: Uint8Array): boolean {
+  if (tiff.length < 8) return false;
+  const order = String.fromCharCode(tiff[0], tiff[1]);
+  if (order !== 'II' && order !== 'MM') return false;
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = order === 'II';
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (view.getUint16(2, littleEndian) !== 42 || ifdOffset + 2 > tiff.length) return false;
+  return ifdOffset + 2 + view.getUint16(ifdOffset, littleEndian) * 12 + 4 <= tiff.length;
+}
+
+function appendGpsIfd(existing: Uint8Array | null, gps: GpsExifData): Uint8Array {
+  const littleEndian = existing ? existing[0] === 0x49 : false;
+  const base = existing ?? new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x00]);
+  const view = new DataView(base.buffer, base.byteOffset, base.byteLength);
+
+  // Keep IFD0's entries as they are, raw value fields included
+  const entries: IfdEntry[] = [];
+  let nextIfd = 0;
+  if (existing) {
+    const ifdOffset = view.getUint32(4, littleEndian);
+    const count = view.getUint16(ifdOffset, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entryOffset = ifdOffset + 2 + i * 12;
+      const tag = view.getUint16(entryOffset, littleEndian);
+      if (tag === TAG_GPS_IFD) continue;
+      entries.push({
+        tag,
+        type: view.getUint16(entryOffset + 2, littleEndian),
+        count: view.getUint32(entryOffset + 4, littleEndian),
+        value: base.slice(entryOffset + 8, entryOffset + 12),
+      });
+    }
+    nextIfd = view.getUint32(ifdOffset + 2 + count * 12, littleEndian);
+  }
+
+  const ifd0Offset = align(base.length);
+  const gpsOffset = align(ifd0Offset + getIfdSize(entries.length + 1));
+  entries.push({ tag: TAG_GPS_IFD, type: TYPE_LONG, count: 1, value: encodeLongs([gpsOffset], littleEndian) });
+  entries.sort((a, b) => a.tag - b.tag);
+
+  const ifd0 = encodeIfd(entries, ifd0Offset, nextIfd, littleEndian);
+  const gpsIfd = encodeIfd(createGpsEntries(gps, littleEndian), gpsOffset, 0, littleEndian);
+
+  const tiff = new Uint8Array(gpsOffset + gpsIfd.length);
+  tiff.set(base, 0);
+  tiff.set(ifd0, ifd0Offset);
+  tiff.set(gpsIfd, gpsOffset);
+  new DataView(tiff.buffer).setUint32(4, ifd0Offset, littleEndian);
+  return tiff;
+}
+
+function createGpsEntries(gps: GpsExifData, littleEndian: boolean): IfdEntry[] {
+  const entries: IfdEntry[] = [
+    { tag: 0x0000, type: TYPE_BYTE, count: 4, value: new Uint8Array([2, 3, 0, 0]) },
+    { tag: 0x0001, type: TYPE_ASCII, count: 2, value: encodeAscii(gps.lat < 0 ? 'S' : 'N') },
+    { tag: 0x0002, type: TYPE_RATIONAL, count: 3, value: encodeRationals(toDegreesMinutesSeconds(gps.lat), littleEndian) },
+    { tag: 0x0003, type: TYPE_ASCII, count: 2, value: encodeAscii(gps.lon < 0 ? 'W' : 'E') },
+    { tag: 0x0004, type: TYPE_RATIONAL, count: 3, value: encodeRationals(toDegreesMinutesSeconds(gps.lon), littleEndian) },
+  ];
+
+  if (gps.ele !== undefined) {
+    entries.push(
+      { tag: 0x0005, type: TYPE_BYTE, count: 1, value: new Uint8Array([gps.ele < 0 ? 1 : 0]) },
+      { tag: 0x0006, type: TYPE_RATIONAL, count: 1, value: encodeRationals([[Math.round(Math.abs(gps.ele) * 100), 100]], littleEndian) }
+    );
+  }
+
+  // GPS time is always UTC
+  if (gps.timestamp) {
+    const time = gps.timestamp;
+    const date = `${time.getUTCFullYear()}:${pad(time.getUTCMonth() + 1)}:${pad(time.getUTCDate())}`;
+    entries.push(
+      {
+        tag: 0x0007,
+        type: TYPE_RATIONAL,
+        count: 3,
+        value: encodeRationals([[time.getUTCHours(), 1], [time.getUTCMinutes(), 1], [time.getUTCSeconds(), 1]], littleEndian),
+      },
+      { tag: 0x001d, type: TYPE_ASCII, count: date.length + 1, value: encodeAscii(date) }
+    );
+  }
+
+  return entries;
+}
+
+function toDegreesMinutesSeconds(coordinate: number): [number, number][] {
+  const absolute = Math.abs(coordinate);
+  const degrees = Math.floor(absolute);
+  const minutes = Math.floor((absolute - degrees) * 60);
+  const seconds = Math.round(((absolute - degrees) * 60 - minutes) * 60 * 10000);
+  return [[degrees, 1], [minutes, 1], [seconds, 10000]];
+}
+
+function getIfdSize(entryCount: number): number {
+  return 2 + entryCount * 12 + 4;
+}
+
+function encodeIfd(entries: IfdEntry[], offset: number, nextIfd: number, littleEndian: boolean): Uint8Array {
+  const tableSize = getIfdSize(entries.length);
+  const dataSize = entries.reduce((size, entry) => size + (entry.value.length > 4 ? align(entry.value.length) : 0), 0);
+  const bytes = new Uint8Array(tableSize + dataSize);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint16(0, entries.length, littleEndian);
+  let dataOffset = tableSize;
+  entries.forEach((entry, i) => {
+    const entryOffset = 2 + i * 12;
+    view.setUint16(entryOffset, entry.tag, littleEndian);
+    view.setUint16(entryOffset + 2, entry.type, littleEndian);
+    view.setUint32(entryOffset + 4, entry.count, littleEndian);
+    if (entry.value.length <= 4) {
+      bytes.set(entry.value, entryOffset + 8);
+    } else {
+      view.setUint32(entryOffset + 8, offset + dataOffset, littleEndian);
+      bytes.set(entry.value, dataOffset);
+      dataOffset += align(entry.value.length);
+    }
+  });
+  view.setUint32(2 + entries.length * 12, nextIfd, littleEndian);
+
+  return bytes;
+}
+
+function encodeLongs(values: number[], littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value, littleEndian));
+  return bytes;
+}
+
+function encodeRationals(values: [number, number][], littleEndian: boolean): Uint8Array {
+  return encodeLongs(values.flat(), littleEndian);
+}
+
+function encodeAscii(text: string): Uint8Array {
+  return new Uint8Array([...Array.from(text, char => char.charCodeAt(0)), 0]);
+}
+
+function align(offset: number): number {
+  return offset + (offset % 2);
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+export interface GeotaggedPhotoZip {
+  blob: Blob;
+  // Photos included without their new location because it couldn't be written
+  failedPhotos: string[];
+}
+
+// Packages the located photos into a zip, writing their coordinates into each JPEG.
+// Photos that weren't moved and other formats are included unchanged.
+export async function toGeotaggedPhotoZip(photos: Photo[]): Promise<GeotaggedPhotoZip> {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const failedPhotos: string[] = [];
+
+  for (const photo of photos) {
+    if (!photo.location) continue;
+
+    // Rewriting would drop any GPS tags the file already has beyond the ones written here
+    if (isSameLocation(photo.location, photo.originalLocation)) {
+      zip.file(getUniqueName(photo.name, usedNames), photo.file);
+      continue;
+    }
+
+    // HEIC photos are converted to JPEG so their location can be written
+    const image = await convertHeicToJpeg(photo.file);
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8;
+    const name = isJpeg ? photo.name.replace(/\.(heic|heif)$/i, '.jpg') : photo.name;
+
+    let output: Uint8Array = bytes;
+    if (isJpeg) {
+      try {
+        output = writeGpsExif(bytes, { ...photo.location, timestamp: photo.gpsTime });
+      } catch (error) {
+        console.error(`Could not write GPS data to ${photo.name}:`, error);
+        failedPhotos.push(photo.name);
+      }
+    } else {
+      failedPhotos.push(photo.name);
+    }
+
+    zip.file(getUniqueName(name, usedNames), output);
+  }
+
+  return { blob: await zip.generateAsync({ type: 'blob' }), failedPhotos };
+}
+
+function isSameLocation(location: PhotoLocation, other: PhotoLocation | null): boolean {
+  return !!other && location.lat === other.lat && location.lon === other.lon && location.ele === other.ele;
+}
+
+function getUniqueName(name: string, usedNames: Set<string>): string {
+  let unique = name;
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  for (let i = 2; usedNames.has(unique.toLowerCase()); i++) {
+    unique = `${stem} (${i})${extension}`;
+  }
+  usedNames.add(unique.toLowerCase());
+  return unique;
+}
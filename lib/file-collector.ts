@@ -0,0 +1,93 @@
+// Minimal typings for the File and Directory Entries API, which lib.dom only partially covers
+interface FileSystemEntryLike {
+  isFile: boolean;
+  isDirectory: boolean;
+  name: string;
+}
+
+interface FileSystemFileEntryLike extends FileSystemEntryLike {
+  file: (success: (file: File) => void, error?: (error: unknown) => void) => void;
+}
+
+interface FileSystemDirectoryEntryLike extends FileSystemEntryLike {
+  createReader: () => {
+    readEntries: (success: (entries: FileSystemEntryLike[]) => void, error?: (error: unknown) => void) => void;
+  };
+}
+
+export function getFileExtension(fileName: string): string {
+  return `.${fileName.split('.').pop()?.toLowerCase()}`;
+}
+
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() as FileSystemEntryLike | null);
+
+  // Browsers without entry support only expose the top-level files
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries as FileSystemEntryLike[]) {
+    files.push(...await readEntry(entry));
+  }
+  return files;
+}
+
+export async function expandZipArchives(files: File[], acceptedFormats: string[]): Promise<File[]> {
+  const expanded: File[] = [];
+
+  for (const file of files) {
+    if (getFileExtension(file.name) !== '.zip') {
+      expanded.push(file);
+      continue;
+    }
+
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+    for (const entry of Object.values(zip.files)) {
+      const entryName = entry.name.split('/').pop() || entry.name;
+      // Skip folders and macOS resource forks (__MACOSX/._name)
+      if (entry.dir || entryName.startsWith('._') || !acceptedFormats.includes(getFileExtension(entryName))) {
+        continue;
+      }
+      const blob = await entry.async('blob');
+      expanded.push(new File([blob], entryName, { lastModified: entry.date.getTime() }));
+    }
+  }
+
+  return expanded;
+}
+
+async function readEntry(entry: FileSystemEntryLike): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => {
+      (entry as FileSystemFileEntryLike).file(resolve, reject);
+    });
+    return [file];
+  }
+
+  if (!entry.isDirectory) {
+    return [];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntryLike).createReader();
+  const files: File[] = [];
+
+  // readEntries returns results in batches and an empty batch once the directory is exhausted
+  while (true) {
+    const batch = await new Promise<FileSystemEntryLike[]>((resolve, reject) => {
+      reader.readEntries(resolve, reject);
+    });
+    if (batch.length === 0) break;
+
+    for (const child of batch) {
+      files.push(...await readEntry(child));
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,324 @@
+import { ParsedTrackFile, Track, TrackLap, TrackPoint, TrackSegment } from '@/types/track';
+import { calculateTrackStats, TrackStatsOptions } from '@/lib/track-stats';
+import { DEFAULT_TRACK_STYLE } from '@/lib/track-style';
+import { createId } from '@/lib/id';
+
+// Global message numbers from the FIT profile
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_EVENT = 21;
+
+const FIELD_TIMESTAMP = 253;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalMessageNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+type FitMessage = Map<number, number>;
+
+export async function parseFITFile(file: File, statsOptions?: TrackStatsOptions): Promise<ParsedTrackFile> {
+  const buffer = await file.arrayBuffer();
+  return parseFITBuffer(buffer, file.name, statsOptions);
+}
+
+export function parseFITBuffer(buffer: ArrayBuffer, fileName?: string, statsOptions?: TrackStatsOptions): ParsedTrackFile {
+  const view = new DataView(buffer);
+  const segments: TrackSegment[] = [];
+  const laps: TrackLap[] = [];
+  let currentSegment: TrackSegment = { points: [] };
+
+  const closeSegment = () => {
+    if (currentSegment.points.length > 0) {
+      segments.push(currentSegment);
+      currentSegment = { points: [] };
+    }
+  };
+
+  readMessages(view, (globalMessageNumber, message) => {
+    switch (globalMessageNumber) {
+      case MESG_RECORD: {
+        const point = toTrackPoint(message);
+        if (point) {
+          currentSegment.points.push(point);
+        }
+        break;
+      }
+      case MESG_LAP:
+        laps.push(toTrackLap(message));
+        break;
+      case MESG_EVENT:
+        // event 0 is the timer; event types 1 (stop) and 4 (stop all) pause the recording
+        if (message.get(0) === 0 && (message.get(1) === 1 || message.get(1) === 4)) {
+          closeSegment();
+        }
+        break;
+    }
+  });
+  closeSegment();
+
+  if (segments.length === 0) {
+    throw new Error('No GPS records found in FIT file');
+  }
+
+  const tracks: Track[] = [{
+    id: createId('track'),
+    name: fileName || 'FIT Activity',
+    segments,
+    style: { ...DEFAULT_TRACK_STYLE },
+    visible: true,
+    stats: calculateTrackStats(segments, statsOptions),
+    laps: laps.length > 0 ? laps : undefined,
+  }];
+
+  return { tracks, waypoints: [] };
+}
+
+function readMessages(
+  view: DataView,
+  onMessage: (globalMessageNumber: number, message: FitMessage) => void
+) {
+  let fileStart = 0;
+
+  // A FIT file may contain several chained FIT files back to back
+  while (fileStart + 12 <= view.byteLength) {
+    const headerSize = view.getUint8(fileStart);
+    const dataSize = view.getUint32(fileStart + 4, true);
+    const signature = String.fromCharCode(
+      view.getUint8(fileStart + 8),
+      view.getUint8(fileStart + 9),
+      view.getUint8(fileStart + 10),
+      view.getUint8(fileStart + 11)
+    );
+
+    if (signature !== '.FIT') {
+      if (fileStart === 0) {
+        throw new Error('Invalid FIT file');
+      }
+      return;
+    }
+
+    const dataEnd = Math.min(fileStart + headerSize + dataSize, view.byteLength);
+    const definitions = new Map<number, MessageDefinition>();
+    let lastTimestamp = 0;
+    let offset = fileStart + headerSize;
+
+    while (offset < dataEnd) {
+      const recordHeader = view.getUint8(offset++);
+
+      if (recordHeader & 0x80) {
+        // Compressed timestamp header: 5-bit offset rolling over the last full timestamp
+        const localType = (recordHeader >> 5) & 0x03;
+        const timeOffset = recordHeader & 0x1f;
+        lastTimestamp = (lastTimestamp & ~0x1f) + timeOffset +
+          (timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0);
+
+        const definition = getDefinition(definitions, localType);
+        const message = readDataMessage(view, offset, definition);
+        message.set(FIELD_TIMESTAMP, lastTimestamp);
+        offset += getMessageSize(definition);
+        onMessage(definition.globalMessageNumber, message);
+        continue;
+      }
+
+      const localType = recordHeader & 0x0f;
+
+      if (recordHeader & 0x40) {
+        const hasDeveloperData = (recordHeader & 0x20) !== 0;
+        const littleEndian = view.getUint8(offset + 1) === 0;
+        const globalMessageNumber = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = view.getUint8(offset + 4);
+        offset += 5;
+
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({
+            num: view.getUint8(offset),
+            size: view.getUint8(offset + 1),
+            baseType: view.getUint8(offset + 2),
+          });
+          offset += 3;
+        }
+
+        let developerDataSize = 0;
+        if (hasDeveloperData) {
+          const developerFieldCount = view.getUint8(offset++);
+          for (let i = 0; i < developerFieldCount; i++) {
+            developerDataSize += view.getUint8(offset + 1);
+            offset += 3;
+          }
+        }
+
+        definitions.set(localType, { globalMessageNumber, littleEndian, fields, developerDataSize });
+        continue;
+      }
+
+      const definition = getDefinition(definitions, localType);
+      const message = readDataMessage(view, offset, definition);
+      offset += getMessageSize(definition);
+
+      const timestamp = message.get(FIELD_TIMESTAMP);
+      if (timestamp !== undefined) {
+        lastTimestamp = timestamp;
+      }
+      onMessage(definition.globalMessageNumber, message);
+    }
+
+    // Skip the trailing 2-byte file CRC
+    fileStart = fileStart + headerSize + dataSize + 2;
+  }
+}
+
+function getDefinition(definitions: Map<number, MessageDefinition>, localType: number): MessageDefinition {
+  const definition = definitions.get(localType);
+  if (!definition) {
+    throw new Error(`Invalid FIT file: missing definition for local message ${localType}`);
+  }
+  return definition;
+}
+
+function getMessageSize(definition: MessageDefinition): number {
+  return definition.fields.reduce((size, field) => size + field.size, 0) + definition.developerDataSize;
+}
+
+function readDataMessage(view: DataView, offset: number, definition: MessageDefinition): FitMessage {
+  const message: FitMessage = new Map();
+
+  definition.fields.forEach(field => {
+    const value = readFieldValue(view, offset, field, definition.littleEndian);
+    if (value !== undefined) {
+      message.set(field.num, value);
+    }
+    offset += field.size;
+  });
+
+  return message;
+}
+
+// Reads a single numeric value, returning undefined for the base type's invalid marker.
+// Arrays, strings and 64-bit values are not needed for track data and are skipped.
+function readFieldValue(
+  view: DataView,
+  offset: number,
+  field: FieldDefinition,
+  littleEndian: boolean
+): number | undefined {
+  if (offset + field.size > view.byteLength) {
+    return undefined;
+  }
+
+  switch (field.baseType & 0x1f) {
+    case 0: // enum
+    case 2: // uint8
+    case 13: { // byte
+      if (field.size !== 1) return undefined;
+      const value = view.getUint8(offset);
+      return value === 0xff ? undefined : value;
+    }
+    case 10: { // uint8z
+      if (field.size !== 1) return undefined;
+      const value = view.getUint8(offset);
+      return value === 0 ? undefined : value;
+    }
+    case 1: { // sint8
+      if (field.size !== 1) return undefined;
+      const value = view.getInt8(offset);
+      return value === 0x7f ? undefined : value;
+    }
+    case 3: { // sint16
+      if (field.size !== 2) return undefined;
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? undefined : value;
+    }
+    case 4: { // uint16
+      if (field.size !== 2) return undefined;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff ? undefined : value;
+    }
+    case 11: { // uint16z
+      if (field.size !== 2) return undefined;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0 ? undefined : value;
+    }
+    case 5: { // sint32
+      if (field.size !== 4) return undefined;
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? undefined : value;
+    }
+    case 6: { // uint32
+      if (field.size !== 4) return undefined;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff ? undefined : value;
+    }
+    case 12: { // uint32z
+      if (field.size !== 4) return undefined;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0 ? undefined : value;
+    }
+    case 8: { // float32
+      if (field.size !== 4) return undefined;
+      const value = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 9: { // float64
+      if (field.size !== 8) return undefined;
+      const value = view.getFloat64(offset, littleEndian);
+      return Number.isFinite(value) ? value : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function toTrackPoint(message: FitMessage): TrackPoint | null {
+  const lat = message.get(0);
+  const lon = message.get(1);
+  if (lat === undefined || lon === undefined) {
+    return null;
+  }
+
+  // enhanced_altitude (78) supersedes the 16-bit altitude (2); both are scale 5, offset 500
+  const rawAltitude = message.get(78) ?? message.get(2);
+  const timestamp = message.get(FIELD_TIMESTAMP);
+
+  return {
+    lat: lat * SEMICIRCLES_TO_DEGREES,
+    lon: lon * SEMICIRCLES_TO_DEGREES,
+    ele: rawAltitude !== undefined ? rawAltitude / 5 - 500 : undefined,
+    time: timestamp !== undefined ? fitTimestampToDate(timestamp) : undefined,
+    heartRate: message.get(3),
+    cadence: message.get(4),
+    power: message.get(7),
+    temperature: message.get(13),
+  };
+}
+
+function toTrackLap(message: FitMessage): TrackLap {
+  const startTime = message.get(2);
+  const elapsedTime = message.get(7);
+  const distance = message.get(9);
+
+  return {
+    startTime: startTime !== undefined ? fitTimestampToDate(startTime) : undefined,
+    duration: elapsedTime !== undefined ? elapsedTime / 1000 : undefined,
+    distance: distance !== undefined ? distance / 100 : undefined,
+    averageHeartRate: message.get(15),
+    maxHeartRate: message.get(16),
+  };
+}
+
+function fitTimestampToDate(timestamp: number): Date {
+  return new Date((timestamp + FIT_EPOCH_OFFSET) * 1000);
+}
@@ -0,0 +1,266 @@
+import { ParsedTrackFile, Track, TrackPoint, TrackSegment, TrackStyle } from '@/types/track';
+import { Waypoint } from '@/types/waypoint';
+import { Photo } from '@/types/photo';
+import { calculateTrackStats, TrackStatsOptions } from '@/lib/track-stats';
+import { DEFAULT_TRACK_STYLE } from '@/lib/track-style';
+import { createId } from '@/lib/id';
+
+type Position = number[];
+
+interface GeoJSONGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJSONGeometry[];
+}
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, unknown> | null;
+}
+
+interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+export async function parseGeoJSONFile(file: File, statsOptions?: TrackStatsOptions): Promise<ParsedTrackFile> {
+  const text = await file.text();
+  return parseGeoJSONString(text, file.name, statsOptions);
+}
+
+export function parseGeoJSONString(geoJSONText: string, fileName?: string, statsOptions?: TrackStatsOptions): ParsedTrackFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(geoJSONText);
+  } catch {
+    throw new Error('Invalid GeoJSON file');
+  }
+
+  const tracks: Track[] = [];
+  const waypoints: Waypoint[] = [];
+
+  getFeatures(data).forEach(feature => {
+    const properties = feature.properties || {};
+    const segments: TrackSegment[] = [];
+
+    flattenGeometry(feature.geometry).forEach((geometry, geometryIndex) => {
+      switch (geometry.type) {
+        case 'LineString':
+          segments.push(toSegment(
+            geometry.coordinates as Position[],
+            getTimes(properties, geometryIndex, false)
+          ));
+          break;
+        case 'MultiLineString':
+          (geometry.coordinates as Position[][]).forEach((line, lineIndex) => {
+            segments.push(toSegment(line, getTimes(properties, lineIndex, true)));
+          });
+          break;
+        case 'Point': {
+          const point = toTrackPoint(geometry.coordinates as Position, properties.time);
+          if (point) waypoints.push(toWaypoint(point, properties));
+          break;
+        }
+        case 'MultiPoint':
+          (geometry.coordinates as Position[]).forEach(position => {
+            const point = toTrackPoint(position);
+            if (point) waypoints.push(toWaypoint(point, properties));
+          });
+          break;
+      }
+    });
+
+    const nonEmptySegments = segments.filter(segment => segment.points.length > 0);
+    if (nonEmptySegments.length > 0) {
+      tracks.push({
+        id: createId('track'),
+        name: (typeof properties.name === 'string' && properties.name) || fileName || `Track ${tracks.length + 1}`,
+        segments: nonEmptySegments,
+        style: toTrackStyle(properties),
+        visible: true,
+        stats: calculateTrackStats(nonEmptySegments, statsOptions),
+      });
+    }
+  });
+
+  if (tracks.length === 0 && waypoints.length === 0) {
+    throw new Error('No LineString or Point features found in GeoJSON file');
+  }
+
+  return { tracks, waypoints };
+}
+
+export function toGeoJSON(
+  tracks: Track[],
+  photos: Photo[] = [],
+  waypoints: Waypoint[] = []
+): GeoJSONFeatureCollection {
+  const features: GeoJSONFeature[] = [];
+
+  tracks.forEach(track => {
+    const segments = track.segments.filter(segment => segment.points.length > 0);
+    if (segments.length === 0) return;
+
+    const coordinates = segments.map(segment => segment.points.map(point =>
+      point.ele !== undefined ? [point.lon, point.lat, point.ele] : [point.lon, point.lat]
+    ));
+    const hasTimes = segments.some(segment => segment.points.some(point => point.time));
+    const times = segments.map(segment => segment.points.map(point => point.time?.toISOString() ?? null));
+
+    // Stroke properties follow the simplestyle-spec so QGIS and Mapbox pick them up
+    const properties: Record<string, unknown> = {
+      name: track.name,
+      stroke: track.style.color,
+      'stroke-width': track.style.width,
+      'stroke-opacity': track.style.opacity,
+    };
+    if (hasTimes) {
+      properties.coordinateProperties = {
+        times: segments.length === 1 ? times[0] : times,
+      };
+    }
+
+    features.push({
+      type: 'Feature',
+      geometry: segments.length === 1
+        ? { type: 'LineString', coordinates: coordinates[0] }
+        : { type: 'MultiLineString', coordinates },
+      properties,
+    });
+  });
+
+  waypoints.forEach(waypoint => {
+    features.push({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: waypoint.ele !== undefined
+          ? [waypoint.lon, waypoint.lat, waypoint.ele]
+          : [waypoint.lon, waypoint.lat],
+      },
+      properties: {
+        name: waypoint.name,
+        description: waypoint.description,
+        sym: waypoint.symbol,
+        time: waypoint.time?.toISOString(),
+      },
+    });
+  });
+
+  photos.forEach(photo => {
+    if (!photo.location) return;
+
+    features.push({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: photo.location.ele !== undefined
+          ? [photo.location.lon, photo.location.lat, photo.location.ele]
+          : [photo.location.lon, photo.location.lat],
+      },
+      properties: {
+        name: photo.name,
+        time: photo.timestamp?.toISOString(),
+        'marker-symbol': 'camera',
+      },
+    });
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+function getFeatures(data: unknown): GeoJSONFeature[] {
+  if (!data || typeof data !== 'object' || !('type' in data)) {
+    throw new Error('Invalid GeoJSON file');
+  }
+
+  const object = data as { type: string };
+  if (object.type === 'FeatureCollection') {
+    return (object as GeoJSONFeatureCollection).features || [];
+  }
+  if (object.type === 'Feature') {
+    return [object as GeoJSONFeature];
+  }
+  // A bare geometry is treated as a feature without properties
+  return [{ type: 'Feature', geometry: object as GeoJSONGeometry, properties: null }];
+}
+
+function flattenGeometry(geometry: GeoJSONGeometry | null): GeoJSONGeometry[] {
+  if (!geometry) return [];
+  if (geometry.type === 'GeometryCollection') {
+    return (geometry.geometries || []).flatMap(flattenGeometry);
+  }
+  return [geometry];
+}
+
+// coordinateProperties.times is an array per LineString, or an array of arrays for MultiLineString
+function getTimes(properties: Record<string, unknown>, index: number, isMulti: boolean): unknown[] | undefined {
+  const coordinateProperties = properties.coordinateProperties as { times?: unknown[] } | undefined;
+  const times = coordinateProperties?.times;
+  if (!Array.isArray(times)) return undefined;
+
+  if (isMulti) {
+    return Array.isArray(times[index]) ? times[index] as unknown[] : undefined;
+  }
+  return index === 0 ? times : undefined;
+}
+
+function toSegment(coordinates: Position[], times?: unknown[]): TrackSegment {
+  const segment: TrackSegment = { points: [] };
+
+  (coordinates || []).forEach((position, index) => {
+    const point = toTrackPoint(position, times?.[index]);
+    if (point) segment.points.push(point);
+  });
+
+  return segment;
+}
+
+function toTrackPoint(position: Position, time?: unknown): TrackPoint | null {
+  if (!Array.isArray(position)) return null;
+
+  const [lon, lat, ele] = position;
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+
+  const date = typeof time === 'string' || typeof time === 'number' ? new Date(time) : undefined;
+
+  return {
+    lat,
+    lon,
+    ele: Number.isFinite(ele) ? ele : undefined,
+    time: date && !isNaN(date.getTime()) ? date : undefined,
+  };
+}
+
+function toWaypoint(point: TrackPoint, properties: Record<string, unknown>): Waypoint {
+  const getString = (key: string) => typeof properties[key] === 'string' ? properties[key] as string : undefined;
+
+  return {
+    id: createId('waypoint'),
+    name: getString('name') || getString('title'),
+    description: getString('description') || getString('desc'),
+    symbol: getString('sym') || getString('marker-symbol'),
+    lat: point.lat,
+    lon: point.lon,
+    ele: point.ele,
+    time: point.time,
+    visible: true,
+  };
+}
+
+function toTrackStyle(properties: Record<string, unknown>): TrackStyle {
+  const style: TrackStyle = { ...DEFAULT_TRACK_STYLE };
+
+  if (typeof properties.stroke === 'string' && /^#[0-9a-f]{6}$/i.test(properties.stroke)) {
+    style.color = properties.stroke.toUpperCase();
+  }
+  if (typeof properties['stroke-width'] === 'number') {
+    style.width = Math.min(10, Math.max(1, Math.round(properties['stroke-width'])));
+  }
+  if (typeof properties['stroke-opacity'] === 'number') {
+    style.opacity = Math.min(1, Math.max(0, properties['stroke-opacity']));
+  }
+
+  return style;
+}
@@ -0,0 +1,400 @@
+import { ParsedTrackFile, Track, TrackPoint, TrackSegment, TrackStyle } from '@/types/track';
+import { Waypoint } from '@/types/waypoint';
+import { calculateTrackStats, TrackStatsOptions } from '@/lib/track-stats';
+import { DEFAULT_TRACK_STYLE } from '@/lib/track-style';
+import { createId } from '@/lib/id';
+
+export interface GPXStreamParser {
+  write: (chunk: string) => void;
+  end: () => ParsedTrackFile;
+}
+
+interface OpenElement {
+  name: string;
+  text: string;
+}
+
+interface PendingTrack {
+  kind: 'track' | 'route';
+  name?: string;
+  segments: TrackSegment[];
+  style: Partial<TrackStyle>;
+}
+
+// Sensor values from the Garmin TrackPointExtension (gpxtpx:hr), Cluetrust gpxdata
+// (gpxdata:cadence), Garmin PowerExtension (pwr:PowerInWatts) and unprefixed <power> elements
+const SENSOR_ELEMENTS: Record<string, 'heartRate' | 'cadence' | 'power' | 'temperature'> = {
+  hr: 'heartRate',
+  heartrate: 'heartRate',
+  cad: 'cadence',
+  cadence: 'cadence',
+  power: 'power',
+  powerinwatts: 'power',
+  watts: 'power',
+  atemp: 'temperature',
+  temp: 'temperature',
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+// A SAX-style GPX parser that accepts the document in arbitrary chunks, so large files can be
+// read as a stream without ever holding the full text or a DOM tree in memory. It has no DOM
+// dependency and therefore also runs inside a Web Worker.
+export function createGPXStreamParser(fileName?: string, statsOptions?: TrackStatsOptions): GPXStreamParser {
+  const tracks: Track[] = [];
+  const waypoints: Waypoint[] = [];
+  const stack: OpenElement[] = [];
+  let buffer = '';
+  let currentTrack: PendingTrack | null = null;
+  let currentSegment: TrackSegment | null = null;
+  let currentPoint: TrackPoint | null = null;
+  let currentWaypoint: Pick<Waypoint, 'name' | 'description' | 'symbol'> | null = null;
+  let inPointExtensions = false;
+  let routeCount = 0;
+  let trackCount = 0;
+
+  const openElement = (name: string, attributes: Record<string, string>) => {
+    stack.push({ name, text: '' });
+
+    switch (name) {
+      case 'extensions':
+        inPointExtensions = currentPoint !== null;
+        break;
+      case 'trk':
+        currentTrack = { kind: 'track', segments: [], style: {} };
+        break;
+      case 'rte':
+        currentTrack = { kind: 'route', segments: [{ points: [] }], style: {} };
+        break;
+      case 'trkseg':
+        currentSegment = { points: [] };
+        break;
+      case 'trkpt':
+      case 'rtept':
+      case 'wpt': {
+        currentWaypoint = name === 'wpt' ? {} : null;
+        const lat = parseFloat(attributes.lat);
+        const lon = parseFloat(attributes.lon);
+        currentPoint = Number.isFinite(lat) && Number.isFinite(lon) ? { lat, lon } : null;
+        break;
+      }
+    }
+  };
+
+  const closeElement = (name: string) => {
+    const element = stack.pop();
+    const text = element ? element.text.trim() : '';
+    const parent = stack[stack.length - 1]?.name;
+
+    if (inPointExtensions && currentPoint && text) {
+      const channel = SENSOR_ELEMENTS[name.toLowerCase()];
+      const value = parseFloat(text);
+      if (channel && Number.isFinite(value)) {
+        currentPoint[channel] = value;
+      }
+    }
+
+    switch (name) {
+      case 'extensions':
+        inPointExtensions = false;
+        break;
+      case 'ele':
+        if (currentPoint && text) {
+          const ele = parseFloat(text);
+          if (Number.isFinite(ele)) currentPoint.ele = ele;
+        }
+        break;
+      case 'time':
+        if (currentPoint && text && isPointElement(parent)) {
+          const time = new Date(text);
+          if (!isNaN(time.getTime())) currentPoint.time = time;
+        }
+        break;
+      case 'name':
+        if (currentTrack && (parent === 'trk' || parent === 'rte')) {
+          currentTrack.name = text || undefined;
+        } else if (currentWaypoint && parent === 'wpt') {
+          currentWaypoint.name = text || undefined;
+        }
+        break;
+      case 'desc':
+      case 'cmt':
+        // Prefer <desc> but fall back to the GPS-facing <cmt> when that is all there is
+        if (currentWaypoint && parent === 'wpt' && text && (name === 'desc' || !currentWaypoint.description)) {
+          currentWaypoint.description = text;
+        }
+        break;
+      case 'sym':
+        if (currentWaypoint && parent === 'wpt') {
+          currentWaypoint.symbol = text || undefined;
+        }
+        break;
+      case 'color':
+      case 'width':
+      case 'opacity':
+        // gpx_style:line, written by our own GPX export and by tools such as OsmAnd
+        if (currentTrack && parent === 'line') {
+          applyLineStyle(currentTrack.style, name, text);
+        }
+        break;
+      case 'trkpt':
+        if (currentPoint && currentTrack) {
+          // Tolerate points outside of a <trkseg>
+          if (!currentSegment) {
+            currentSegment = { points: [] };
+            currentTrack.segments.push(currentSegment);
+          }
+          currentSegment.points.push(currentPoint);
+        }
+        currentPoint = null;
+        break;
+      case 'rtept':
+        if (currentPoint && currentTrack) {
+          currentTrack.segments[0].points.push(currentPoint);
+        }
+        currentPoint = null;
+        break;
+      case 'wpt':
+        if (currentPoint && currentWaypoint) {
+          waypoints.push({
+            id: createId('waypoint'),
+            ...currentWaypoint,
+            lat: currentPoint.lat,
+            lon: currentPoint.lon,
+            ele: currentPoint.ele,
+            time: currentPoint.time,
+            visible: true,
+          });
+        }
+        currentPoint = null;
+        currentWaypoint = null;
+        break;
+      case 'trkseg':
+        if (currentTrack && currentSegment && !currentTrack.segments.includes(currentSegment)) {
+          currentTrack.segments.push(currentSegment);
+        }
+        currentSegment = null;
+        break;
+      case 'trk':
+      case 'rte':
+        if (currentTrack) {
+          finishTrack(currentTrack);
+        }
+        currentTrack = null;
+        currentSegment = null;
+        break;
+    }
+  };
+
+  const finishTrack = (pending: PendingTrack) => {
+    const segments = pending.segments.filter(segment => segment.points.length > 0);
+    const index = pending.kind === 'track' ? trackCount++ : routeCount++;
+
+    if (segments.length === 0) return;
+
+    tracks.push({
+      id: createId(pending.kind),
+      name: pending.name || (pending.kind === 'track'
+        ? fileName || `Track ${index + 1}`
+        : `Route ${index + 1}`),
+      segments,
+      style: { ...DEFAULT_TRACK_STYLE, ...pending.style },
+      visible: true,
+      stats: calculateTrackStats(segments, statsOptions),
+    });
+  };
+
+  const appendText = (text: string) => {
+    const element = stack[stack.length - 1];
+    // Only leaf values are needed, so indentation between elements is dropped rather than
+    // accumulated on every <trkseg> of a multi-hundred-MB file
+    if (element && text.trim()) {
+      element.text += text;
+    }
+  };
+
+  const handleTag = (tag: string) => {
+    if (tag.startsWith('/')) {
+      closeElement(localName(tag.slice(1).trim()));
+      return;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = /^[^\s/>]+/.exec(body);
+    if (!nameMatch) return;
+
+    const name = localName(nameMatch[0]);
+    openElement(name, parseAttributes(body.slice(nameMatch[0].length)));
+    if (selfClosing) {
+      closeElement(name);
+    }
+  };
+
+  const process = (isFinal: boolean) => {
+    let position = 0;
+
+    while (position < buffer.length) {
+      const tagStart = buffer.indexOf('<', position);
+
+      if (tagStart === -1) {
+        // Trailing text may hold a partial entity, so keep it until the next chunk
+        if (isFinal) appendText(decodeEntities(buffer.slice(position)));
+        else break;
+        position = buffer.length;
+        break;
+      }
+
+      if (tagStart > position) {
+        appendText(decodeEntities(buffer.slice(position, tagStart)));
+        position = tagStart;
+      }
+
+      let tagEnd: number;
+      if (buffer.startsWith('<!--', tagStart)) {
+        tagEnd = buffer.indexOf('-->', tagStart + 4);
+        if (tagEnd === -1) break;
+        position = tagEnd + 3;
+      } else if (buffer.startsWith('<![CDATA[', tagStart)) {
+        tagEnd = buffer.indexOf(']]>', tagStart + 9);
+        if (tagEnd === -1) break;
+        appendText(buffer.slice(tagStart + 9, tagEnd));
+        position = tagEnd + 3;
+      } else if (buffer.startsWith('<?', tagStart)) {
+        tagEnd = buffer.indexOf('?>', tagStart + 2);
+        if (tagEnd === -1) break;
+        position = tagEnd + 2;
+      } else if (buffer.startsWith('<!', tagStart)) {
+        tagEnd = buffer.indexOf('>', tagStart + 2);
+        if (tagEnd === -1) break;
+        position = tagEnd + 1;
+      } else {
+        tagEnd = findTagEnd(buffer, tagStart + 1);
+        if (tagEnd === -1) break;
+        handleTag(buffer.slice(tagStart + 1, tagEnd));
+        position = tagEnd + 1;
+      }
+    }
+
+    buffer = buffer.slice(position);
+  };
+
+  return {
+    write(chunk: string) {
+      buffer += chunk;
+      process(false);
+    },
+
+    end() {
+      process(true);
+
+      if (tracks.length === 0 && waypoints.length === 0) {
+        throw new Error('No tracks, routes, or waypoints found in GPX file');
+      }
+
+      return { tracks, waypoints };
+    },
+  };
+}
+
+// Streams a GPX blob through the parser in chunks, reporting the fraction of bytes read so far.
+// Returning false from onProgress stops the read.
+export async function parseGPXBlob(
+  blob: Blob,
+  fileName?: string,
+  onProgress?: (progress: number) => boolean | void,
+  statsOptions?: TrackStatsOptions
+): Promise<ParsedTrackFile> {
+  const parser = createGPXStreamParser(fileName, statsOptions);
+  const reader = blob.stream().getReader();
+  const decoder = new TextDecoder();
+  let loaded = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    loaded += value.byteLength;
+    parser.write(decoder.decode(value, { stream: true }));
+
+    if (onProgress && onProgress(blob.size > 0 ? loaded / blob.size : 1) === false) {
+      await reader.cancel();
+      throw new DOMException('Parsing cancelled', 'AbortError');
+    }
+  }
+
+  parser.write(decoder.decode());
+  return parser.end();
+}
+
+function isPointElement(name: string | undefined): boolean {
+  return name === 'trkpt' || name === 'rtept' || name === 'wpt';
+}
+
+function applyLineStyle(style: Partial<TrackStyle>, name: string, text: string) {
+  if (name === 'color' && /^#?[0-9a-f]{6}$/i.test(text)) {
+    style.color = `#${text.replace('#', '').toUpperCase()}`;
+  }
+  if (name === 'width') {
+    const width = parseFloat(text);
+    if (width > 0) style.width = Math.min(10, Math.round(width));
+  }
+  if (name === 'opacity') {
+    const opacity = parseFloat(text);
+    if (opacity >= 0 && opacity <= 1) style.opacity = opacity;
+  }
+}
+
+// Strips namespace prefixes such as gpx_style: or gpxtpx:
+function localName(qualifiedName: string): string {
+  const colon = qualifiedName.indexOf(':');
+  return colon === -1 ? qualifiedName : qualifiedName.slice(colon + 1);
+}
+
+// Finds the closing '>' of a tag, ignoring any '>' inside quoted attribute values
+function findTagEnd(text: string, from: number): number {
+  let quote: string | null = null;
+
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
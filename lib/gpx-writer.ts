@@ -0,0 +1,130 @@
+import { Track, TrackPoint } from '@/types/track';
+import { Photo } from '@/types/photo';
+import { Waypoint } from '@/types/waypoint';
+
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+const GPX_STYLE_NAMESPACE = 'http://www.topografix.com/GPX/gpx_style/0/2';
+const TRACKPOINT_EXTENSION_NAMESPACE = 'http://www.garmin.com/xmlschemas/TrackPointExtension/v1';
+const POWER_EXTENSION_NAMESPACE = 'http://www.garmin.com/xmlschemas/PowerExtension/v1';
+
+export function toGPX(tracks: Track[], photos: Photo[] = [], waypoints: Waypoint[] = []): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="GPX Track Visualizer" xmlns="${GPX_NAMESPACE}" ` +
+      `xmlns:gpx_style="${GPX_STYLE_NAMESPACE}" xmlns:gpxtpx="${TRACKPOINT_EXTENSION_NAMESPACE}" ` +
+      `xmlns:pwr="${POWER_EXTENSION_NAMESPACE}">`,
+    '  <metadata>',
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+  ];
+
+  // GPX 1.1 requires waypoints to precede tracks
+  waypoints.forEach(waypoint => {
+    lines.push(`  <wpt lat="${waypoint.lat}" lon="${waypoint.lon}">`);
+    if (waypoint.ele !== undefined) {
+      lines.push(`    <ele>${waypoint.ele}</ele>`);
+    }
+    if (waypoint.time) {
+      lines.push(`    <time>${waypoint.time.toISOString()}</time>`);
+    }
+    if (waypoint.name) {
+      lines.push(`    <name>${escapeXml(waypoint.name)}</name>`);
+    }
+    if (waypoint.description) {
+      lines.push(`    <desc>${escapeXml(waypoint.description)}</desc>`);
+    }
+    if (waypoint.symbol) {
+      lines.push(`    <sym>${escapeXml(waypoint.symbol)}</sym>`);
+    }
+    lines.push('  </wpt>');
+  });
+
+  photos.forEach(photo => {
+    if (!photo.location) return;
+
+    lines.push(`  <wpt lat="${photo.location.lat}" lon="${photo.location.lon}">`);
+    if (photo.location.ele !== undefined) {
+      lines.push(`    <ele>${photo.location.ele}</ele>`);
+    }
+    if (photo.timestamp) {
+      lines.push(`    <time>${photo.timestamp.toISOString()}</time>`);
+    }
+    lines.push(`    <name>${escapeXml(photo.name)}</name>`);
+    lines.push('    <sym>Camera</sym>');
+    lines.push('  </wpt>');
+  });
+
+  tracks.forEach(track => {
+    lines.push('  <trk>');
+    lines.push(`    <name>${escapeXml(track.name)}</name>`);
+    lines.push('    <extensions>');
+    lines.push('      <gpx_style:line>');
+    lines.push(`        <gpx_style:color>${track.style.color.replace('#', '').toUpperCase()}</gpx_style:color>`);
+    lines.push(`        <gpx_style:opacity>${track.style.opacity}</gpx_style:opacity>`);
+    lines.push(`        <gpx_style:width>${track.style.width}</gpx_style:width>`);
+    lines.push('      </gpx_style:line>');
+    lines.push('    </extensions>');
+
+    track.segments.forEach(segment => {
+      if (segment.points.length === 0) return;
+
+      lines.push('    <trkseg>');
+      segment.points.forEach(point => {
+        lines.push(...formatTrackPoint(point));
+      });
+      lines.push('    </trkseg>');
+    });
+
+    lines.push('  </trk>');
+  });
+
+  lines.push('</gpx>');
+  return lines.join('\n');
+}
+
+function formatTrackPoint(point: TrackPoint): string[] {
+  const lines = [`      <trkpt lat="${point.lat}" lon="${point.lon}">`];
+
+  if (point.ele !== undefined) {
+    lines.push(`        <ele>${point.ele}</ele>`);
+  }
+  if (point.time) {
+    lines.push(`        <time>${point.time.toISOString()}</time>`);
+  }
+
+  const sensorLines: string[] = [];
+  if (point.temperature !== undefined) {
+    sensorLines.push(`            <gpxtpx:atemp>${point.temperature}</gpxtpx:atemp>`);
+  }
+  if (point.heartRate !== undefined) {
+    sensorLines.push(`            <gpxtpx:hr>${Math.round(point.heartRate)}</gpxtpx:hr>`);
+  }
+  if (point.cadence !== undefined) {
+    sensorLines.push(`            <gpxtpx:cad>${Math.round(point.cadence)}</gpxtpx:cad>`);
+  }
+  if (sensorLines.length > 0 || point.power !== undefined) {
+    lines.push('        <extensions>');
+    if (sensorLines.length > 0) {
+      lines.push('          <gpxtpx:TrackPointExtension>');
+      lines.push(...sensorLines);
+      lines.push('          </gpxtpx:TrackPointExtension>');
+    }
+    // TrackPointExtension has no power field; Garmin's PowerExtension carries it instead
+    if (point.power !== undefined) {
+      lines.push(`          <pwr:PowerInWatts>${Math.round(point.power)}</pwr:PowerInWatts>`);
+    }
+    lines.push('        </extensions>');
+  }
+
+  lines.push('      </trkpt>');
+  return lines;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,36 @@
+import { ParsedTrackFile } from '@/types/track';
+import { parseGPXBlob } from '@/lib/gpx-stream-parser';
+import { TrackStatsOptions } from '@/lib/track-stats';
+
+export interface GPXWorkerRequest {
+  file: File;
+  statsOptions?: TrackStatsOptions;
+}
+
+export type GPXWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: ParsedTrackFile }
+  | { type: 'error'; message: string };
+
+const context = self as unknown as Worker;
+
+context.onmessage = async (event: MessageEvent<GPXWorkerRequest>) => {
+  const { file, statsOptions } = event.data;
+  let lastReported = 0;
+
+  try {
+    const result = await parseGPXBlob(file, file.name, progress => {
+      // Report at most every percent to avoid flooding the main thread
+      if (progress - lastReported >= 0.01) {
+        lastReported = progress;
+        context.postMessage({ type: 'progress', progress } satisfies GPXWorkerResponse);
+      }
+    }, statsOptions);
+    context.postMessage({ type: 'result', result } satisfies GPXWorkerResponse);
+  } catch (error) {
+    context.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to parse GPX file',
+    } satisfies GPXWorkerResponse);
+  }
+};
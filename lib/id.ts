@@ -0,0 +1,5 @@
+// Ids for tracks, waypoints and photos; the random part keeps items created in the
+// same millisecond (several tracks from one file, a batch of photos) apart
+export function createId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
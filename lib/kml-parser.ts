@@ -0,0 +1,132 @@
+import { ParsedTrackFile, Track, TrackPoint, TrackSegment } from '@/types/track';
+import { Waypoint } from '@/types/waypoint';
+import { calculateTrackStats, TrackStatsOptions } from '@/lib/track-stats';
+import { getChildren, getChildText, getDescendants, parseXMLDocument } from '@/lib/xml-utils';
+import { DEFAULT_TRACK_STYLE } from '@/lib/track-style';
+import { createId } from '@/lib/id';
+
+export async function parseKMLFile(file: File, statsOptions?: TrackStatsOptions): Promise<ParsedTrackFile> {
+  const text = await file.text();
+  return parseKMLString(text, file.name, statsOptions);
+}
+
+export async function parseKMZFile(file: File, statsOptions?: TrackStatsOptions): Promise<ParsedTrackFile> {
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+  // By convention the main document is doc.kml, but any root-level .kml will do
+  const kmlEntries = Object.values(zip.files)
+    .filter(entry => !entry.dir && /\.kml$/i.test(entry.name))
+    .sort((a, b) => (a.name === 'doc.kml' ? -1 : b.name === 'doc.kml' ? 1 : a.name.localeCompare(b.name)));
+
+  if (kmlEntries.length === 0) {
+    throw new Error('No KML document found in KMZ archive');
+  }
+
+  const text = await kmlEntries[0].async('string');
+  return parseKMLString(text, file.name, statsOptions);
+}
+
+export function parseKMLString(kmlText: string, fileName?: string, statsOptions?: TrackStatsOptions): ParsedTrackFile {
+  const doc = parseXMLDocument(kmlText, 'KML');
+  const tracks: Track[] = [];
+  const waypoints: Waypoint[] = [];
+  const placemarks = getDescendants(doc, 'Placemark');
+
+  placemarks.forEach(placemark => {
+    const segments: TrackSegment[] = [];
+
+    getDescendants(placemark, 'LineString').forEach(lineString => {
+      const segment: TrackSegment = {
+        points: parseCoordinates(getChildText(lineString, 'coordinates')),
+      };
+      if (segment.points.length > 0) {
+        segments.push(segment);
+      }
+    });
+
+    // gx:Track (optionally wrapped in gx:MultiTrack) carries per-point timestamps
+    getDescendants(placemark, 'Track').forEach(gxTrack => {
+      const segment = parseGxTrack(gxTrack);
+      if (segment.points.length > 0) {
+        segments.push(segment);
+      }
+    });
+
+    if (segments.length > 0) {
+      tracks.push({
+        id: createId('track'),
+        name: getChildText(placemark, 'name') || fileName || `Track ${tracks.length + 1}`,
+        segments,
+        style: { ...DEFAULT_TRACK_STYLE },
+        visible: true,
+        stats: calculateTrackStats(segments, statsOptions),
+      });
+      return;
+    }
+
+    getDescendants(placemark, 'Point').forEach(point => {
+      parseCoordinates(getChildText(point, 'coordinates')).forEach(coordinate => {
+        waypoints.push({
+          id: createId('waypoint'),
+          name: getChildText(placemark, 'name'),
+          description: getChildText(placemark, 'description'),
+          lat: coordinate.lat,
+          lon: coordinate.lon,
+          ele: coordinate.ele,
+          visible: true,
+        });
+      });
+    });
+  });
+
+  if (tracks.length === 0 && waypoints.length === 0) {
+    throw new Error('No tracks or placemarks found in KML file');
+  }
+
+  return { tracks, waypoints };
+}
+
+function parseGxTrack(gxTrack: Element): TrackSegment {
+  const whens = getChildren(gxTrack, 'when');
+  const coords = getChildren(gxTrack, 'coord');
+  const segment: TrackSegment = { points: [] };
+
+  coords.forEach((coord, index) => {
+    const [lon, lat, ele] = (coord.textContent || '').trim().split(/\s+/).map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+      return;
+    }
+
+    const when = whens[index]?.textContent?.trim();
+    const time = when ? new Date(when) : undefined;
+
+    segment.points.push({
+      lat,
+      lon,
+      ele: Number.isFinite(ele) ? ele : undefined,
+      time: time && !isNaN(time.getTime()) ? time : undefined,
+    });
+  });
+
+  return segment;
+}
+
+// KML coordinates are whitespace-separated "lon,lat[,alt]" tuples
+function parseCoordinates(text: string | undefined): TrackPoint[] {
+  if (!text) {
+    return [];
+  }
+
+  return text.trim().split(/\s+/).reduce<TrackPoint[]>((points, tuple) => {
+    const [lon, lat, ele] = tuple.split(',').map(Number);
+    if (Number.isFinite(lat) && Number.isFinite(lon)) {
+      points.push({
+        lat,
+        lon,
+        ele: Number.isFinite(ele) ? ele : undefined,
+      });
+    }
+    return points;
+  }, []);
+}
@@ -0,0 +1,124 @@
+import { Track, TrackPoint } from '@/types/track';
+import { Photo, PhotoLocation } from '@/types/photo';
+import { calculateDistance } from '@/lib/track-stats';
+
+export interface GeotagOptions {
+  // Added to each photo timestamp to line the camera clock up with GPS time
+  offsetSeconds: number;
+  // Longest time in seconds a photo may be from a fix. Across a longer gap between fixes,
+  // or beyond the ends of a recording, a photo snaps to a fix this close or is not matched.
+  maxTimeGap: number;
+}
+
+export const DEFAULT_GEOTAG_OPTIONS: GeotagOptions = {
+  offsetSeconds: 0,
+  maxTimeGap: 300,
+};
+
+export interface GeotagMatch {
+  photoId: string;
+  location: PhotoLocation;
+  trackId: string;
+  trackName: string;
+  // Photo time corrected by the clock offset, i.e. in GPS time
+  time: Date;
+  // Seconds between the corrected photo time and the closest recorded fix
+  timeGap: number;
+  // Metres between the matched position and the closest recorded fix
+  distance: number;
+}
+
+type TimedPoint = TrackPoint & { time: Date };
+
+export function matchPhotosToTracks(
+  photos: Photo[],
+  tracks: Track[],
+  options: GeotagOptions = DEFAULT_GEOTAG_OPTIONS
+): GeotagMatch[] {
+  const timelines = tracks.flatMap(track => track.segments
+    .map(segment => segment.points.filter((point): point is TimedPoint => !!point.time))
+    .filter(points => points.length > 0)
+    .map(points => ({ track, points })));
+
+  const matches: GeotagMatch[] = [];
+
+  photos.forEach(photo => {
+    if (!photo.timestamp) return;
+    const time = photo.timestamp.getTime() + options.offsetSeconds * 1000;
+    let best: GeotagMatch | null = null;
+
+    timelines.forEach(({ track, points }) => {
+      const match = matchTime(points, time, options.maxTimeGap);
+      if (match && (!best || match.timeGap < best.timeGap)) {
+        best = { photoId: photo.id, trackId: track.id, trackName: track.name, time: new Date(time), ...match };
+      }
+    });
+
+    if (best) {
+      matches.push(best);
+    }
+  });
+
+  return matches;
+}
+
+function matchTime(
+  points: TimedPoint[],
+  time: number,
+  maxTimeGap: number
+): Pick<GeotagMatch, 'location' | 'timeGap' | 'distance'> | null {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (time <= first.time.getTime() || time >= last.time.getTime()) {
+    return snapToFix(time <= first.time.getTime() ? first : last, time, maxTimeGap);
+  }
+
+  // Find the last fix at or before the photo time
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (points[mid].time.getTime() <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const before = points[low];
+  const after = points[Math.min(low + 1, points.length - 1)];
+  const span = after.time.getTime() - before.time.getTime();
+
+  // Where the recording lost signal for longer than allowed, interpolating would guess the route
+  if (span / 1000 > maxTimeGap) {
+    return snapToFix(time - before.time.getTime() <= after.time.getTime() - time ? before : after, time, maxTimeGap);
+  }
+
+  const fraction = span > 0 ? (time - before.time.getTime()) / span : 0;
+  const location: PhotoLocation = {
+    lat: before.lat + (after.lat - before.lat) * fraction,
+    lon: before.lon + (after.lon - before.lon) * fraction,
+  };
+  if (before.ele !== undefined && after.ele !== undefined) {
+    location.ele = before.ele + (after.ele - before.ele) * fraction;
+  }
+  const closest = fraction <= 0.5 ? before : after;
+
+  return {
+    location,
+    timeGap: Math.abs(time - closest.time.getTime()) / 1000,
+    distance: calculateDistance(location.lat, location.lon, closest.lat, closest.lon),
+  };
+}
+
+function snapToFix(
+  fix: TimedPoint,
+  time: number,
+  maxTimeGap: number
+): Pick<GeotagMatch, 'location' | 'timeGap' | 'distance'> | null {
+  const timeGap = Math.abs(time - fix.time.getTime()) / 1000;
+  return timeGap <= maxTimeGap
+    ? { location: { lat: fix.lat, lon: fix.lon, ele: fix.ele }, timeGap, distance: 0 }
+    : null;
+}
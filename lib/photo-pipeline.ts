@@ -0,0 +1,167 @@
+import { PhotoMetadata } from '@/types/photo';
+import { extractPhotoMetadata, createThumbnail, convertHeicToJpeg, isHeicFile } from '@/lib/exif-parser';
+import type { PhotoWorkerRequest, PhotoWorkerResponse } from '@/lib/photo.worker';
+
+const THUMBNAIL_SIZE = 200;
+
+export type PhotoFileStatus = 'processing' | 'success' | 'error' | 'cancelled';
+
+export interface PhotoFileUpdate {
+  status: PhotoFileStatus;
+  progress?: number;
+  error?: string;
+}
+
+export interface PhotoPipelineOptions {
+  // Number of photos processed at once; defaults to one per spare CPU core, up to four
+  concurrency?: number;
+  signal?: AbortSignal;
+  onFileUpdate?: (index: number, update: PhotoFileUpdate) => void;
+}
+
+export interface ProcessedPhotoFile {
+  file: File;
+  metadata: PhotoMetadata;
+  thumbnail: Blob | null;
+}
+
+interface PhotoProcessor {
+  process: (file: File, onProgress: (progress: number) => void, signal?: AbortSignal) => Promise<ProcessedPhotoFile>;
+  dispose: () => void;
+}
+
+// Processes photos with bounded concurrency, each slot keeping its own worker for EXIF
+// reading and thumbnailing. Resolves with the photos that finished, in input order, so a
+// cancelled batch still returns everything completed before the cancel.
+export async function processPhotoFiles(
+  files: File[],
+  options: PhotoPipelineOptions = {}
+): Promise<ProcessedPhotoFile[]> {
+  const { signal, onFileUpdate } = options;
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? getDefaultConcurrency(), files.length));
+  const useWorkers = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  const results: (ProcessedPhotoFile | undefined)[] = new Array(files.length);
+  let nextIndex = 0;
+
+  const runSlot = async () => {
+    const processor = useWorkers ? createWorkerProcessor() : mainThreadProcessor;
+
+    try {
+      while (nextIndex < files.length && !signal?.aborted) {
+        const index = nextIndex++;
+        const file = files[index];
+        onFileUpdate?.(index, { status: 'processing', progress: 0 });
+
+        try {
+          results[index] = await processor.process(
+            file,
+            progress => onFileUpdate?.(index, { status: 'processing', progress }),
+            signal
+          );
+          onFileUpdate?.(index, { status: 'success', progress: 1 });
+        } catch (error) {
+          if (signal?.aborted) {
+            onFileUpdate?.(index, { status: 'cancelled' });
+            break;
+          }
+          console.error(`Error processing photo ${file.name}:`, error);
+          onFileUpdate?.(index, {
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Failed to process the photo',
+          });
+        }
+      }
+    } finally {
+      processor.dispose();
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, runSlot));
+
+  for (let i = nextIndex; i < files.length; i++) {
+    onFileUpdate?.(i, { status: 'cancelled' });
+  }
+
+  return results.filter((result): result is ProcessedPhotoFile => !!result);
+}
+
+function getDefaultConcurrency(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+  return cores ? Math.min(4, Math.max(1, cores - 1)) : 2;
+}
+
+// Fallback where workers or OffscreenCanvas are unavailable
+const mainThreadProcessor: PhotoProcessor = {
+  process: async (file, onProgress) => {
+    const metadata = await extractPhotoMetadata(file);
+    onProgress(0.5);
+    const thumbnail = await createThumbnail(file, THUMBNAIL_SIZE);
+    return { file, metadata, thumbnail };
+  },
+  dispose: () => {},
+};
+
+function createWorkerProcessor(): PhotoProcessor {
+  let worker: Worker | null = null;
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  return {
+    process: async (file, onProgress, signal) => {
+      // heic2any needs the DOM, so HEIC conversion stays on the main thread
+      const image = isHeicFile(file) ? await convertHeicToJpeg(file) : file;
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      onProgress(0.4);
+
+      const activeWorker = worker ?? new Worker(new URL('./photo.worker.ts', import.meta.url));
+      worker = activeWorker;
+
+      return new Promise<ProcessedPhotoFile>((resolve, reject) => {
+        const cleanup = () => {
+          activeWorker.onmessage = null;
+          activeWorker.onerror = null;
+          signal?.removeEventListener('abort', handleAbort);
+        };
+
+        const handleAbort = () => {
+          cleanup();
+          terminate();
+          reject(createAbortError());
+        };
+
+        activeWorker.onmessage = (event: MessageEvent<PhotoWorkerResponse>) => {
+          const message = event.data;
+          if (message.type === 'progress') {
+            onProgress(0.4 + message.progress * 0.6);
+          } else if (message.type === 'result') {
+            cleanup();
+            resolve({ file, metadata: message.metadata, thumbnail: message.thumbnail });
+          } else {
+            cleanup();
+            reject(new Error(message.message));
+          }
+        };
+
+        activeWorker.onerror = (event) => {
+          // Start a fresh worker for the next photo
+          cleanup();
+          terminate();
+          reject(new Error(event.message || 'Photo worker failed'));
+        };
+
+        signal?.addEventListener('abort', handleAbort);
+        activeWorker.postMessage({ file, image, maxSize: THUMBNAIL_SIZE } satisfies PhotoWorkerRequest);
+      });
+    },
+    dispose: terminate,
+  };
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Processing cancelled', 'AbortError');
+}
@@ -0,0 +1,58 @@
+import { PhotoMetadata } from '@/types/photo';
+import { extractPhotoMetadata } from '@/lib/exif-parser';
+
+export interface PhotoWorkerRequest {
+  file: File;
+  // The file itself, or a JPEG converted from it on the main thread
+  image: Blob;
+  maxSize: number;
+}
+
+export type PhotoWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; metadata: PhotoMetadata; thumbnail: Blob | null }
+  | { type: 'error'; message: string };
+
+const context = self as unknown as Worker;
+
+context.onmessage = async (event: MessageEvent<PhotoWorkerRequest>) => {
+  const { file, image, maxSize } = event.data;
+
+  try {
+    const metadata = await extractPhotoMetadata(file);
+    context.postMessage({ type: 'progress', progress: 0.5 } satisfies PhotoWorkerResponse);
+
+    const thumbnail = await createThumbnail(image, maxSize);
+    context.postMessage({ type: 'result', metadata, thumbnail } satisfies PhotoWorkerResponse);
+  } catch (error) {
+    context.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to process the photo',
+    } satisfies PhotoWorkerResponse);
+  }
+};
+
+async function createThumbnail(image: Blob, maxSize: number): Promise<Blob | null> {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = new OffscreenCanvas(
+      Math.max(1, Math.round(bitmap.width * scale)),
+      Math.max(1, Math.round(bitmap.height * scale))
+    );
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      bitmap.close();
+      return null;
+    }
+
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+  } catch (error) {
+    // Photos that can't be decoded are still added, just without a preview
+    console.error('Error creating thumbnail:', error);
+    return null;
+  }
+}
@@ -0,0 +1,176 @@
+import { ParsedTrackFile, Track, TrackLap, TrackPoint, TrackSegment } from '@/types/track';
+import { Waypoint } from '@/types/waypoint';
+import { calculateTrackStats, TrackStatsOptions } from '@/lib/track-stats';
+import { getChildNumber, getChildren, getChildText, getDescendants, parseXMLDocument } from '@/lib/xml-utils';
+import { DEFAULT_TRACK_STYLE } from '@/lib/track-style';
+import { createId } from '@/lib/id';
+
+export async function parseTCXFile(file: File, statsOptions?: TrackStatsOptions): Promise<ParsedTrackFile> {
+  const text = await file.text();
+  return parseTCXString(text, file.name, statsOptions);
+}
+
+export function parseTCXString(tcxText: string, fileName?: string, statsOptions?: TrackStatsOptions): ParsedTrackFile {
+  const doc = parseXMLDocument(tcxText, 'TCX');
+  const tracks: Track[] = [];
+  const waypoints: Waypoint[] = [];
+
+  const activities = getDescendants(doc, 'Activity');
+
+  activities.forEach((activity, activityIndex) => {
+    const segments: TrackSegment[] = [];
+    const laps: TrackLap[] = [];
+
+    getChildren(activity, 'Lap').forEach(lap => {
+      laps.push(parseLap(lap));
+
+      // Each <Track> inside a lap is a continuous recording, so it maps onto a segment
+      getChildren(lap, 'Track').forEach(track => {
+        const segment = parseTrack(track);
+        if (segment.points.length > 0) {
+          segments.push(segment);
+        }
+      });
+    });
+
+    if (segments.length > 0) {
+      tracks.push(createTrack(
+        createId('track'),
+        getActivityName(activity, activityIndex, activities.length, fileName),
+        segments,
+        laps,
+        statsOptions
+      ));
+    }
+  });
+
+  getDescendants(doc, 'Course').forEach((course, courseIndex) => {
+    const segments: TrackSegment[] = [];
+
+    getChildren(course, 'Track').forEach(track => {
+      const segment = parseTrack(track);
+      if (segment.points.length > 0) {
+        segments.push(segment);
+      }
+    });
+
+    if (segments.length > 0) {
+      tracks.push(createTrack(
+        createId('route'),
+        getChildText(course, 'Name') || fileName || `Course ${courseIndex + 1}`,
+        segments,
+        getChildren(course, 'Lap').map(parseLap),
+        statsOptions
+      ));
+    }
+
+    // Course points mark turns, climbs and feed zones along the course
+    getChildren(course, 'CoursePoint').forEach(coursePoint => {
+      const position = getChildren(coursePoint, 'Position')[0];
+      const lat = position && getChildNumber(position, 'LatitudeDegrees');
+      const lon = position && getChildNumber(position, 'LongitudeDegrees');
+      if (lat === undefined || lon === undefined) return;
+
+      waypoints.push({
+        id: createId('waypoint'),
+        name: getChildText(coursePoint, 'Name'),
+        description: getChildText(coursePoint, 'Notes'),
+        symbol: getChildText(coursePoint, 'PointType'),
+        lat,
+        lon,
+        ele: getChildNumber(coursePoint, 'AltitudeMeters'),
+        time: parseTime(getChildText(coursePoint, 'Time')),
+        visible: true,
+      });
+    });
+  });
+
+  if (tracks.length === 0) {
+    throw new Error('No activities or courses with GPS data found in TCX file');
+  }
+
+  return { tracks, waypoints };
+}
+
+// The file name alone would give every activity in a multi-activity file the same name
+function getActivityName(activity: Element, index: number, count: number, fileName?: string): string {
+  const sport = activity.getAttribute('Sport') || 'Activity';
+  if (count === 1) {
+    return fileName || sport;
+  }
+  return fileName ? `${fileName} (${sport} ${index + 1})` : `${sport} ${index + 1}`;
+}
+
+function createTrack(
+  id: string,
+  name: string,
+  segments: TrackSegment[],
+  laps: TrackLap[],
+  statsOptions?: TrackStatsOptions
+): Track {
+  return {
+    id,
+    name,
+    segments,
+    style: { ...DEFAULT_TRACK_STYLE },
+    visible: true,
+    stats: calculateTrackStats(segments, statsOptions),
+    laps: laps.length > 0 ? laps : undefined,
+  };
+}
+
+function parseTrack(track: Element): TrackSegment {
+  const segment: TrackSegment = { points: [] };
+
+  getChildren(track, 'Trackpoint').forEach(trackpoint => {
+    const position = getChildren(trackpoint, 'Position')[0];
+    const lat = position && getChildNumber(position, 'LatitudeDegrees');
+    const lon = position && getChildNumber(position, 'LongitudeDegrees');
+
+    // Indoor or pre-fix samples have no position and cannot be placed on the map
+    if (lat === undefined || lon === undefined) {
+      return;
+    }
+
+    const point: TrackPoint = {
+      lat,
+      lon,
+      ele: getChildNumber(trackpoint, 'AltitudeMeters'),
+      time: parseTime(getChildText(trackpoint, 'Time')),
+      heartRate: getNestedValue(trackpoint, 'HeartRateBpm'),
+      cadence: getChildNumber(trackpoint, 'Cadence'),
+    };
+
+    // Power lives in the ActivityExtension namespace: <Extensions><TPX><Watts>
+    const watts = getDescendants(trackpoint, 'Watts')[0]?.textContent;
+    if (watts && Number.isFinite(Number(watts))) {
+      point.power = Number(watts);
+    }
+
+    segment.points.push(point);
+  });
+
+  return segment;
+}
+
+function parseLap(lap: Element): TrackLap {
+  return {
+    startTime: parseTime(lap.getAttribute('StartTime')),
+    duration: getChildNumber(lap, 'TotalTimeSeconds'),
+    distance: getChildNumber(lap, 'DistanceMeters'),
+    averageHeartRate: getNestedValue(lap, 'AverageHeartRateBpm'),
+    maxHeartRate: getNestedValue(lap, 'MaximumHeartRateBpm'),
+  };
+}
+
+// Malformed timestamps are dropped rather than kept as Invalid Date
+function parseTime(value?: string | null): Date | undefined {
+  const time = value ? new Date(value) : undefined;
+  return time && !isNaN(time.getTime()) ? time : undefined;
+}
+
+// Heart rate values are wrapped as <HeartRateBpm><Value>142</Value></HeartRateBpm>
+function getNestedValue(parent: Element, localName: string): number | undefined {
+  const element = getChildren(parent, localName)[0];
+  return element ? getChildNumber(element, 'Value') : undefined;
+}
@@ -0,0 +1,85 @@
+import { Track, TrackSegment } from '@/types/track';
+
+// Point indexes here are flat across segments, matching the order of buildTrackProfile
+
+export function countTrackPoints(segments: TrackSegment[]): number {
+  return segments.reduce((total, segment) => total + segment.points.length, 0);
+}
+
+export function trimSegments(segments: TrackSegment[], startIndex: number, endIndex: number): TrackSegment[] {
+  const trimmed: TrackSegment[] = [];
+  let offset = 0;
+
+  segments.forEach(segment => {
+    const from = Math.max(startIndex - offset, 0);
+    const to = Math.min(endIndex - offset, segment.points.length - 1);
+    if (from <= to) {
+      trimmed.push({ points: segment.points.slice(from, to + 1) });
+    }
+    offset += segment.points.length;
+  });
+
+  return trimmed;
+}
+
+// The split point ends the first part and starts the second so neither leaves a gap
+export function splitSegmentsAt(segments: TrackSegment[], index: number): [TrackSegment[], TrackSegment[]] {
+  return [
+    trimSegments(segments, 0, index),
+    trimSegments(segments, index, countTrackPoints(segments) - 1),
+  ];
+}
+
+export function splitSegmentsByTimeGap(segments: TrackSegment[], gapSeconds: number): TrackSegment[][] {
+  return splitSegmentsWhere(segments, (previous, point) =>
+    (point.getTime() - previous.getTime()) / 1000 > gapSeconds
+  );
+}
+
+// Days follow the browser's local time zone, which is what users see in timestamps
+export function splitSegmentsByDay(segments: TrackSegment[]): TrackSegment[][] {
+  return splitSegmentsWhere(segments, (previous, point) =>
+    previous.toDateString() !== point.toDateString()
+  );
+}
+
+function splitSegmentsWhere(
+  segments: TrackSegment[],
+  shouldSplit: (previousTime: Date, time: Date) => boolean
+): TrackSegment[][] {
+  const parts: TrackSegment[][] = [[]];
+  let lastTime: Date | undefined;
+
+  segments.forEach(segment => {
+    let currentSegment: TrackSegment = { points: [] };
+    parts[parts.length - 1].push(currentSegment);
+
+    segment.points.forEach(point => {
+      if (point.time && lastTime && shouldSplit(lastTime, point.time)) {
+        currentSegment = { points: [] };
+        parts.push([currentSegment]);
+      }
+      currentSegment.points.push(point);
+      if (point.time) {
+        lastTime = point.time;
+      }
+    });
+  });
+
+  return parts
+    .map(part => part.filter(segment => segment.points.length > 0))
+    .filter(part => part.length > 0);
+}
+
+// Tracks are joined in chronological order when every track has timestamps,
+// otherwise in the order given. Each source track keeps its own segments.
+export function mergeTrackSegments(tracks: Track[]): TrackSegment[] {
+  const getStartTime = (track: Track) =>
+    track.segments.flatMap(segment => segment.points).find(point => point.time)?.time?.getTime();
+
+  const ordered = tracks.every(track => getStartTime(track) !== undefined)
+    ? [...tracks].sort((a, b) => (getStartTime(a) as number) - (getStartTime(b) as number))
+    : tracks;
+
+  return ordered.flatMap(track => track.segments.filter(segment => segment.points.length > 0));
+}
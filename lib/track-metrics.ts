@@ -0,0 +1,149 @@
+import { Track, TrackColorMetric, TrackSegment, ColorRampName } from '@/types/track';
+import { calculateDistance } from '@/lib/track-stats';
+import { smoothElevations, ElevationSmoothingOptions, DEFAULT_ELEVATION_SMOOTHING } from '@/lib/elevation-smoothing';
+import { getRampColor, DEFAULT_COLOR_RAMP } from '@/lib/color-ramps';
+import { formatDuration } from '@/lib/gpx-parser';
+
+export const COLOR_METRICS: Record<TrackColorMetric, { label: string; format: (value: number) => string }> = {
+  speed: { label: 'Speed', format: value => `${(value * 3.6).toFixed(1)} km/h` },
+  elevation: { label: 'Elevation', format: value => `${value.toFixed(0)} m` },
+  gradient: { label: 'Gradient', format: value => `${value.toFixed(1)}%` },
+  heartRate: { label: 'Heart Rate', format: value => `${value.toFixed(0)} bpm` },
+  time: { label: 'Time', format: value => (value > 0 ? formatDuration(value) : '0s') },
+};
+
+export interface MetricColorRun {
+  color: string;
+  positions: [number, number][];
+}
+
+export interface MetricColoring {
+  metric: TrackColorMetric;
+  ramp: ColorRampName;
+  min: number;
+  max: number;
+  runs: MetricColorRun[];
+}
+
+// Neighbouring points on each side used to steady speed and gradient readings
+const METRIC_WINDOW = 2;
+// Consecutive points are grouped into this many color bands to keep the polyline count low
+const COLOR_BANDS = 24;
+// Range ends are taken from percentiles so a few bad fixes don't flatten the ramp
+const RANGE_PERCENTILE = 0.02;
+
+export function calculatePointMetric(
+  segments: TrackSegment[],
+  metric: TrackColorMetric,
+  elevationSmoothing: ElevationSmoothingOptions = DEFAULT_ELEVATION_SMOOTHING
+): (number | undefined)[][] {
+  const firstTime = segments
+    .flatMap(segment => segment.points)
+    .find(point => point.time)?.time?.getTime();
+
+  return segments.map(segment => {
+    const points = segment.points;
+
+    switch (metric) {
+      case 'elevation':
+        return points.map(point => point.ele);
+      case 'heartRate':
+        return points.map(point => point.heartRate);
+      case 'time':
+        return points.map(point => (point.time && firstTime !== undefined
+          ? (point.time.getTime() - firstTime) / 1000
+          : undefined));
+    }
+
+    const cumulativeDistance = [0];
+    for (let i = 1; i < points.length; i++) {
+      cumulativeDistance.push(cumulativeDistance[i - 1] + calculateDistance(
+        points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon
+      ));
+    }
+
+    if (metric === 'speed') {
+      return points.map((_, i) => {
+        const start = points[Math.max(0, i - METRIC_WINDOW)];
+        const end = points[Math.min(points.length - 1, i + METRIC_WINDOW)];
+        if (!start.time || !end.time) return undefined;
+        const elapsed = (end.time.getTime() - start.time.getTime()) / 1000;
+        if (elapsed <= 0) return undefined;
+        return (cumulativeDistance[Math.min(points.length - 1, i + METRIC_WINDOW)] -
+          cumulativeDistance[Math.max(0, i - METRIC_WINDOW)]) / elapsed;
+      });
+    }
+
+    // Gradient uses smoothed elevation; points without elevation keep a gap
+    const elevationIndexes = points.flatMap((point, i) => (point.ele !== undefined ? [i] : []));
+    const smoothed = smoothElevations(
+      elevationIndexes.map(i => points[i].ele as number),
+      elevationSmoothing
+    );
+    const smoothedByPoint: (number | undefined)[] = points.map(() => undefined);
+    elevationIndexes.forEach((pointIndex, i) => {
+      smoothedByPoint[pointIndex] = smoothed[i];
+    });
+
+    return points.map((_, i) => {
+      const start = Math.max(0, i - METRIC_WINDOW);
+      const end = Math.min(points.length - 1, i + METRIC_WINDOW);
+      const startElevation = smoothedByPoint[start];
+      const endElevation = smoothedByPoint[end];
+      const distance = cumulativeDistance[end] - cumulativeDistance[start];
+      if (startElevation === undefined || endElevation === undefined || distance < 1) return undefined;
+      return ((endElevation - startElevation) / distance) * 100;
+    });
+  });
+}
+
+export function buildMetricColoring(
+  track: Track,
+  elevationSmoothing: ElevationSmoothingOptions = DEFAULT_ELEVATION_SMOOTHING
+): MetricColoring | null {
+  const metric = track.style.colorBy;
+  if (!metric) {
+    return null;
+  }
+
+  const ramp = track.style.colorRamp ?? DEFAULT_COLOR_RAMP;
+  const values = calculatePointMetric(track.segments, metric, elevationSmoothing);
+  const sorted = values.flat().filter((value): value is number => value !== undefined).sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const min = sorted[Math.floor((sorted.length - 1) * RANGE_PERCENTILE)];
+  const max = sorted[Math.ceil((sorted.length - 1) * (1 - RANGE_PERCENTILE))];
+  const getColor = (value: number | undefined) => {
+    if (value === undefined) return track.style.color;
+    // Treat a near-constant metric as flat instead of amplifying rounding noise
+    const t = max - min > 1e-6 ? (value - min) / (max - min) : 0.5;
+    const band = Math.min(Math.floor(Math.min(Math.max(t, 0), 1) * COLOR_BANDS), COLOR_BANDS - 1);
+    return getRampColor(ramp, (band + 0.5) / COLOR_BANDS);
+  };
+
+  const runs: MetricColorRun[] = [];
+  track.segments.forEach((segment, segmentIndex) => {
+    let currentRun: MetricColorRun | null = null;
+
+    segment.points.forEach((point, i) => {
+      if (i === 0) return;
+      const prevPoint = segment.points[i - 1];
+      const segmentValues = values[segmentIndex];
+      // Each stretch takes the average of its end points so color changes land between fixes
+      const a = segmentValues[i - 1];
+      const b = segmentValues[i];
+      const color = getColor(a !== undefined && b !== undefined ? (a + b) / 2 : a ?? b);
+
+      if (currentRun && currentRun.color === color) {
+        currentRun.positions.push([point.lat, point.lon]);
+      } else {
+        currentRun = { color, positions: [[prevPoint.lat, prevPoint.lon], [point.lat, point.lon]] };
+        runs.push(currentRun);
+      }
+    });
+  });
+
+  return { metric, ramp, min, max, runs };
+}
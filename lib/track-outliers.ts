@@ -0,0 +1,134 @@
+import { TrackPoint, TrackSegment } from '@/types/track';
+import { calculateDistance } from '@/lib/track-stats';
+
+export interface OutlierDetectionOptions {
+  // Fastest plausible movement, in m/s
+  maxSpeed: number;
+  // Largest plausible change of speed, in m/s²
+  maxAcceleration: number;
+}
+
+export const DEFAULT_OUTLIER_DETECTION: OutlierDetectionOptions = {
+  maxSpeed: 200 / 3.6,
+  maxAcceleration: 10,
+};
+
+export interface TrackOutlier {
+  segmentIndex: number;
+  pointIndex: number;
+  point: TrackPoint;
+  reason: 'speed' | 'acceleration';
+  speed: number;
+}
+
+// A point is only flagged when skipping it makes the path plausible again, so a genuine
+// jump (a gap in recording, a train ride) isn't mistaken for a run of bad fixes. The
+// first and last fixes can't be skipped over, so they are flagged when the path on
+// their other side is plausible. Points without timestamps can't be judged and are never flagged.
+export function detectOutliers(
+  segments: TrackSegment[],
+  options: OutlierDetectionOptions = DEFAULT_OUTLIER_DETECTION
+): TrackOutlier[] {
+  const outliers: TrackOutlier[] = [];
+
+  segments.forEach((segment, segmentIndex) => {
+    const timed = segment.points
+      .map((point, pointIndex) => ({ point, pointIndex }))
+      .filter((entry): entry is { point: TrackPoint & { time: Date }; pointIndex: number } => !!entry.point.time);
+    if (timed.length < 3) return;
+
+    let anchor = timed[0];
+    let anchorSpeed: number | undefined;
+    let start = 1;
+
+    // Check the first fix backwards from the two after it
+    const firstSpeed = getSpeed(timed[0].point, timed[1].point);
+    const followingSpeed = getSpeed(timed[1].point, timed[2].point);
+    const firstTime = getElapsed(timed[0].point, timed[1].point);
+    if (firstSpeed !== undefined && followingSpeed !== undefined && followingSpeed <= options.maxSpeed) {
+      const isSpeedSpike = firstSpeed > options.maxSpeed;
+      const isAccelerationSpike = firstTime > 0 &&
+        Math.abs(firstSpeed - followingSpeed) / firstTime > options.maxAcceleration;
+
+      if (isSpeedSpike || isAccelerationSpike) {
+        outliers.push({
+          segmentIndex,
+          pointIndex: timed[0].pointIndex,
+          point: timed[0].point,
+          reason: isSpeedSpike ? 'speed' : 'acceleration',
+          speed: firstSpeed,
+        });
+        anchor = timed[1];
+        start = 2;
+      }
+    }
+
+    for (let i = start; i < timed.length; i++) {
+      const current = timed[i];
+      const next = timed[i + 1];
+      const speedIn = getSpeed(anchor.point, current.point);
+      const timeIn = getElapsed(anchor.point, current.point);
+
+      if (speedIn === undefined) {
+        // Repeated fix with the same timestamp and position
+        continue;
+      }
+
+      let isSpeedSpike = false;
+      let isAccelerationSpike = false;
+
+      if (next) {
+        // Skipping to a repeat of the anchor fix is always plausible
+        const speedSkipping = getSpeed(anchor.point, next.point);
+        const timeSkipping = getElapsed(anchor.point, next.point);
+
+        isSpeedSpike = speedIn > options.maxSpeed &&
+          (speedSkipping === undefined || speedSkipping <= options.maxSpeed);
+        isAccelerationSpike = anchorSpeed !== undefined && timeIn > 0 &&
+          Math.abs(speedIn - anchorSpeed) / timeIn > options.maxAcceleration &&
+          (speedSkipping === undefined || (timeSkipping > 0 &&
+            Math.abs(speedSkipping - anchorSpeed) / timeSkipping <= options.maxAcceleration));
+      } else if (anchorSpeed !== undefined && anchorSpeed <= options.maxSpeed) {
+        // The last fix has nothing after it, so it is judged by how the anchor was reached
+        isSpeedSpike = speedIn > options.maxSpeed;
+        isAccelerationSpike = timeIn > 0 && Math.abs(speedIn - anchorSpeed) / timeIn > options.maxAcceleration;
+      }
+
+      if (isSpeedSpike || isAccelerationSpike) {
+        outliers.push({
+          segmentIndex,
+          pointIndex: current.pointIndex,
+          point: current.point,
+          reason: isSpeedSpike ? 'speed' : 'acceleration',
+          speed: speedIn,
+        });
+        continue;
+      }
+
+      anchor = current;
+      anchorSpeed = speedIn;
+    }
+  });
+
+  return outliers;
+}
+
+function getElapsed(from: TrackPoint & { time: Date }, to: TrackPoint & { time: Date }): number {
+  return (to.time.getTime() - from.time.getTime()) / 1000;
+}
+
+function getSpeed(from: TrackPoint & { time: Date }, to: TrackPoint & { time: Date }): number | undefined {
+  const distance = calculateDistance(from.lat, from.lon, to.lat, to.lon);
+  const elapsed = getElapsed(from, to);
+  if (elapsed <= 0) {
+    return distance > 0 ? Infinity : undefined;
+  }
+  return distance / elapsed;
+}
+
+export function removePoints(segments: TrackSegment[], points: TrackPoint[]): TrackSegment[] {
+  const toRemove = new Set(points);
+  return segments
+    .map(segment => ({ points: segment.points.filter(point => !toRemove.has(point)) }))
+    .filter(segment => segment.points.length > 0);
+}
@@ -0,0 +1,73 @@
+import { ParsedTrackFile } from '@/types/track';
+import { parseGPXFile, TrackParseOptions } from '@/lib/gpx-parser';
+import { parseKMLFile, parseKMZFile } from '@/lib/kml-parser';
+import { parseFITFile } from '@/lib/fit-parser';
+import { parseTCXFile } from '@/lib/tcx-parser';
+import { parseGeoJSONFile } from '@/lib/geojson';
+
+export type TrackFileFormat = 'gpx' | 'kml' | 'kmz' | 'fit' | 'tcx' | 'geojson';
+
+const EXTENSION_FORMATS: Record<string, TrackFileFormat> = {
+  '.gpx': 'gpx',
+  '.kml': 'kml',
+  '.kmz': 'kmz',
+  '.fit': 'fit',
+  '.tcx': 'tcx',
+  '.geojson': 'geojson',
+  '.json': 'geojson',
+};
+
+export const TRACK_FILE_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+// Only GPX parsing runs in a worker and reports progress; the other formats are small enough
+// to parse on the main thread in one go.
+export async function parseTrackFile(file: File, options: TrackParseOptions = {}): Promise<ParsedTrackFile> {
+  const format = await detectTrackFileFormat(file);
+
+  switch (format) {
+    case 'gpx':
+      return parseGPXFile(file, options);
+    case 'kml':
+      return parseKMLFile(file, options.statsOptions);
+    case 'kmz':
+      return parseKMZFile(file, options.statsOptions);
+    case 'fit':
+      return parseFITFile(file, options.statsOptions);
+    case 'tcx':
+      return parseTCXFile(file, options.statsOptions);
+    case 'geojson':
+      return parseGeoJSONFile(file, options.statsOptions);
+    default:
+      throw new Error(`Unsupported track file: ${file.name}`);
+  }
+}
+
+export async function detectTrackFileFormat(file: File): Promise<TrackFileFormat | null> {
+  // Sniff the content first so mislabelled files (e.g. a zipped .kml) still parse
+  const header = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+
+  if (header[0] === 0x50 && header[1] === 0x4b) {
+    return 'kmz';
+  }
+
+  if (String.fromCharCode(...header.subarray(8, 12)) === '.FIT') {
+    return 'fit';
+  }
+
+  const text = new TextDecoder().decode(header);
+  if (/<gpx[\s>]/.test(text)) {
+    return 'gpx';
+  }
+  if (/<kml[\s>]/.test(text)) {
+    return 'kml';
+  }
+  if (/<TrainingCenterDatabase[\s>]/.test(text)) {
+    return 'tcx';
+  }
+  if (/^\s*\{/.test(text) && /"type"\s*:/.test(text)) {
+    return 'geojson';
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  return (extension && EXTENSION_FORMATS[`.${extension}`]) || null;
+}
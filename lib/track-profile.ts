@@ -0,0 +1,88 @@
+import { Track, TrackPoint } from '@/types/track';
+import { calculateDistance } from '@/lib/track-stats';
+
+export interface ProfilePoint {
+  point: TrackPoint;
+  distance: number;
+  elapsed?: number;
+  segmentIndex: number;
+}
+
+// Flattens a track into profile samples with cumulative distance and elapsed time.
+// Distance is not accumulated across segment gaps, matching calculateTrackStats.
+export function buildTrackProfile(track: Track): ProfilePoint[] {
+  const profile: ProfilePoint[] = [];
+  let distance = 0;
+  let startTime: number | undefined;
+
+  track.segments.forEach((segment, segmentIndex) => {
+    segment.points.forEach((point, i) => {
+      if (i > 0) {
+        const prevPoint = segment.points[i - 1];
+        distance += calculateDistance(prevPoint.lat, prevPoint.lon, point.lat, point.lon);
+      }
+
+      if (point.time && startTime === undefined) {
+        startTime = point.time.getTime();
+      }
+
+      profile.push({
+        point,
+        distance,
+        elapsed: point.time && startTime !== undefined
+          ? (point.time.getTime() - startTime) / 1000
+          : undefined,
+        segmentIndex,
+      });
+    });
+  });
+
+  return profile;
+}
+
+// Binary search for the sample closest to a value on a monotonically increasing axis
+export function findProfileIndexByValue(
+  profile: ProfilePoint[],
+  value: number,
+  getValue: (sample: ProfilePoint) => number | undefined
+): number {
+  let low = 0;
+  let high = profile.length - 1;
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((getValue(profile[mid]) ?? -Infinity) < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  if (low > 0) {
+    const before = getValue(profile[low - 1]) ?? -Infinity;
+    const after = getValue(profile[low]) ?? Infinity;
+    if (Math.abs(value - before) < Math.abs(after - value)) {
+      return low - 1;
+    }
+  }
+  return low;
+}
+
+export function findNearestProfileIndex(profile: ProfilePoint[], lat: number, lon: number): number {
+  let nearestIndex = -1;
+  let nearestDistance = Infinity;
+
+  // An equirectangular approximation is plenty to rank nearby candidates
+  const cosLat = Math.cos(lat * Math.PI / 180);
+  profile.forEach((sample, index) => {
+    const dLat = sample.point.lat - lat;
+    const dLon = (sample.point.lon - lon) * cosLat;
+    const distance = dLat * dLat + dLon * dLon;
+    if (distance < nearestDistance) {
+      nearestDistance = distance;
+      nearestIndex = index;
+    }
+  });
+
+  return nearestIndex;
+}
@@ -0,0 +1,170 @@
+import { TrackPoint, TrackSegment, TrackSimplification } from '@/types/track';
+
+export const DEFAULT_SIMPLIFICATION: TrackSimplification = {
+  method: 'douglasPeucker',
+  tolerance: 5,
+};
+
+export function simplifySegments(segments: TrackSegment[], options: TrackSimplification): TrackSegment[] {
+  return segments.map(segment => ({
+    points: simplifyPoints(segment.points, options),
+  }));
+}
+
+// Tolerance is in metres: the maximum deviation for Douglas-Peucker, and the side
+// of the equivalent square (tolerance²) as the minimum triangle area for Visvalingam.
+export function simplifyPoints(points: TrackPoint[], options: TrackSimplification): TrackPoint[] {
+  if (points.length <= 2 || options.tolerance <= 0) {
+    return points;
+  }
+
+  const projected = projectToMeters(points);
+  const keep = options.method === 'visvalingam'
+    ? visvalingam(projected, options.tolerance * options.tolerance)
+    : douglasPeucker(projected, options.tolerance);
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// Local equirectangular projection, accurate enough for the distances involved
+function projectToMeters(points: TrackPoint[]): [number, number][] {
+  const R = 6371000;
+  const originLat = points[0].lat * Math.PI / 180;
+  const cosLat = Math.cos(originLat);
+
+  return points.map(point => [
+    point.lon * Math.PI / 180 * R * cosLat,
+    point.lat * Math.PI / 180 * R,
+  ]);
+}
+
+function douglasPeucker(points: [number, number][], tolerance: number): boolean[] {
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to avoid blowing the stack on long recordings
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop() as [number, number];
+    let maxDistance = 0;
+    let maxIndex = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const distance = perpendicularDistance(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex >= 0 && maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return keep;
+}
+
+function perpendicularDistance(
+  point: [number, number],
+  lineStart: [number, number],
+  lineEnd: [number, number]
+): number {
+  const dx = lineEnd[0] - lineStart[0];
+  const dy = lineEnd[1] - lineStart[1];
+  const lengthSquared = dx * dx + dy * dy;
+
+  if (lengthSquared === 0) {
+    return Math.hypot(point[0] - lineStart[0], point[1] - lineStart[1]);
+  }
+
+  // Distance to the segment rather than the infinite line, so loops aren't cut short
+  const t = Math.max(0, Math.min(1, ((point[0] - lineStart[0]) * dx + (point[1] - lineStart[1]) * dy) / lengthSquared));
+  return Math.hypot(point[0] - (lineStart[0] + t * dx), point[1] - (lineStart[1] + t * dy));
+}
+
+function visvalingam(points: [number, number][], minArea: number): boolean[] {
+  const count = points.length;
+  const keep = new Array<boolean>(count).fill(true);
+  const previous = points.map((_, i) => i - 1);
+  const next = points.map((_, i) => i + 1);
+  const areas = new Array<number>(count).fill(Infinity);
+  const heap = new MinHeap();
+
+  for (let i = 1; i < count - 1; i++) {
+    areas[i] = triangleArea(points[i - 1], points[i], points[i + 1]);
+    heap.push(areas[i], i);
+  }
+
+  while (heap.size > 0) {
+    const [area, index] = heap.pop();
+    // Entries superseded by a recalculated area are skipped
+    if (!keep[index] || area !== areas[index]) continue;
+    if (area >= minArea) break;
+
+    keep[index] = false;
+    const before = previous[index];
+    const after = next[index];
+    next[before] = after;
+    previous[after] = before;
+
+    // Neighbours never drop below the removed area, which keeps elimination order stable
+    [before, after].forEach(neighbour => {
+      if (neighbour <= 0 || neighbour >= count - 1) return;
+      areas[neighbour] = Math.max(
+        area,
+        triangleArea(points[previous[neighbour]], points[neighbour], points[next[neighbour]])
+      );
+      heap.push(areas[neighbour], neighbour);
+    });
+  }
+
+  return keep;
+}
+
+function triangleArea(a: [number, number], b: [number, number], c: [number, number]): number {
+  return Math.abs((a[0] * (b[1] - c[1]) + b[0] * (c[1] - a[1]) + c[0] * (a[1] - b[1])) / 2);
+}
+
+class MinHeap {
+  private items: [number, number][] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(priority: number, value: number) {
+    const items = this.items;
+    items.push([priority, value]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop() as [number, number];
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,157 @@
+import { TrackSegment } from '@/types/track';
+import { calculateDistance } from '@/lib/track-stats';
+import {
+  ElevationSmoothingOptions,
+  DEFAULT_ELEVATION_SMOOTHING,
+  smoothElevations,
+} from '@/lib/elevation-smoothing';
+import { PaceUnit } from '@/lib/gpx-parser';
+
+export interface TrackSplit {
+  index: number;
+  distance: number;
+  duration?: number;
+  pace?: number;
+  elevationGain: number;
+  elevationLoss: number;
+  averageHeartRate?: number;
+}
+
+export const SPLIT_LENGTHS: Record<PaceUnit, number> = {
+  km: 1000,
+  mi: 1609.344,
+};
+
+interface SplitAccumulator {
+  distance: number;
+  duration: number;
+  hasTime: boolean;
+  elevationGain: number;
+  elevationLoss: number;
+  heartRateSum: number;
+  heartRateCount: number;
+}
+
+function createAccumulator(): SplitAccumulator {
+  return {
+    distance: 0,
+    duration: 0,
+    hasTime: false,
+    elevationGain: 0,
+    elevationLoss: 0,
+    heartRateSum: 0,
+    heartRateCount: 0,
+  };
+}
+
+// Intervals that straddle a split boundary are divided proportionally by distance,
+// and time spent in gaps between segments is not attributed to any split.
+export function calculateSplits(
+  segments: TrackSegment[],
+  unit: PaceUnit = 'km',
+  elevationSmoothing: ElevationSmoothingOptions = DEFAULT_ELEVATION_SMOOTHING
+): TrackSplit[] {
+  const splitLength = SPLIT_LENGTHS[unit];
+  const accumulators: SplitAccumulator[] = [createAccumulator()];
+  let current = accumulators[0];
+
+  segments.forEach(segment => {
+    const points = segment.points;
+    const smoothed = smoothElevations(
+      points.filter(point => point.ele !== undefined).map(point => point.ele as number),
+      elevationSmoothing
+    );
+    let elevationIndex = 0;
+    let prevElevation: number | undefined;
+
+    points.forEach((point, i) => {
+      const elevation = point.ele !== undefined ? smoothed[elevationIndex++] : undefined;
+
+      if (i > 0) {
+        const prevPoint = points[i - 1];
+        let remainingDistance = calculateDistance(prevPoint.lat, prevPoint.lon, point.lat, point.lon);
+        const intervalDistance = remainingDistance;
+        const intervalTime = point.time && prevPoint.time
+          ? (point.time.getTime() - prevPoint.time.getTime()) / 1000
+          : undefined;
+        const elevationDiff = elevation !== undefined && prevElevation !== undefined
+          ? elevation - prevElevation
+          : 0;
+
+        // Time spent standing still belongs to the split in progress
+        if (intervalDistance === 0) {
+          if (intervalTime !== undefined && intervalTime > 0) {
+            current.duration += intervalTime;
+            current.hasTime = true;
+          }
+          current.elevationGain += Math.max(elevationDiff, 0);
+          current.elevationLoss += Math.max(-elevationDiff, 0);
+        }
+
+        while (remainingDistance > 0) {
+          const portion = Math.min(remainingDistance, splitLength - current.distance);
+          const fraction = intervalDistance > 0 ? portion / intervalDistance : 0;
+
+          current.distance += portion;
+          if (intervalTime !== undefined && intervalTime > 0) {
+            current.duration += intervalTime * fraction;
+            current.hasTime = true;
+          }
+          if (elevationDiff > 0) {
+            current.elevationGain += elevationDiff * fraction;
+          } else {
+            current.elevationLoss -= elevationDiff * fraction;
+          }
+          remainingDistance -= portion;
+
+          if (current.distance >= splitLength - 1e-6) {
+            current = createAccumulator();
+            accumulators.push(current);
+          }
+        }
+      }
+
+      if (point.heartRate !== undefined) {
+        current.heartRateSum += point.heartRate;
+        current.heartRateCount++;
+      }
+      if (elevation !== undefined) {
+        prevElevation = elevation;
+      }
+    });
+
+    prevElevation = undefined;
+  });
+
+  return accumulators
+    .filter(split => split.distance > 0)
+    .map((split, index) => ({
+      index: index + 1,
+      distance: split.distance,
+      duration: split.hasTime ? split.duration : undefined,
+      pace: split.hasTime && split.duration > 0 ? (split.duration / split.distance) * 1000 : undefined,
+      elevationGain: split.elevationGain,
+      elevationLoss: split.elevationLoss,
+      averageHeartRate: split.heartRateCount > 0 ? split.heartRateSum / split.heartRateCount : undefined,
+    }));
+}
+
+export function splitsToCSV(splits: TrackSplit[], unit: PaceUnit = 'km'): string {
+  const rows = [
+    ['Split', `Distance (${unit})`, 'Time (s)', `Pace (s/${unit})`, 'Elevation Gain (m)', 'Elevation Loss (m)', 'Average HR (bpm)'],
+  ];
+
+  splits.forEach(split => {
+    rows.push([
+      split.index.toString(),
+      (split.distance / SPLIT_LENGTHS[unit]).toFixed(3),
+      split.duration !== undefined ? split.duration.toFixed(0) : '',
+      split.pace !== undefined ? (split.pace * SPLIT_LENGTHS[unit] / 1000).toFixed(0) : '',
+      split.elevationGain.toFixed(1),
+      split.elevationLoss.toFixed(1),
+      split.averageHeartRate !== undefined ? split.averageHeartRate.toFixed(0) : '',
+    ]);
+  });
+
+  return rows.map(row => row.join(',')).join('\n');
+}
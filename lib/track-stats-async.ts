@@ -0,0 +1,56 @@
+import { TrackSegment, TrackStats } from '@/types/track';
+import { calculateTrackStats, TrackStatsOptions } from '@/lib/track-stats';
+import type { TrackStatsWorkerRequest, TrackStatsWorkerResponse } from '@/lib/track-stats.worker';
+
+// Recomputes stats for several tracks in a worker, so changing the stats options doesn't
+// block the UI on long recordings
+export async function calculateTrackStatsAsync(
+  tracks: TrackSegment[][],
+  options: TrackStatsOptions,
+  signal?: AbortSignal
+): Promise<TrackStats[]> {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  // Fall back to the main thread where workers are unavailable (e.g. SSR, tests)
+  if (typeof Worker === 'undefined') {
+    return tracks.map(segments => calculateTrackStats(segments, options));
+  }
+
+  const worker = new Worker(new URL('./track-stats.worker.ts', import.meta.url));
+
+  return new Promise<TrackStats[]>((resolve, reject) => {
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<TrackStatsWorkerResponse>) => {
+      const message = event.data;
+      cleanup();
+      if (message.type === 'result') {
+        resolve(message.stats);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Track stats worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage({ tracks, options } satisfies TrackStatsWorkerRequest);
+  });
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Stats calculation cancelled', 'AbortError');
+}
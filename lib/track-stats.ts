@@ -0,0 +1,252 @@
+import { TrackPoint, TrackSegment, TrackStats, TrackStop } from '@/types/track';
+import {
+  ElevationSmoothingOptions,
+  DEFAULT_ELEVATION_SMOOTHING,
+  smoothElevations,
+  calculateElevationChange,
+} from '@/lib/elevation-smoothing';
+
+export interface StopDetectionOptions {
+  // Intervals slower than this (m/s) count towards a stop
+  speedThreshold: number;
+  // Slow stretches shorter than this (seconds) are treated as moving
+  minStopDuration: number;
+}
+
+export const DEFAULT_STOP_DETECTION: StopDetectionOptions = {
+  speedThreshold: 0.5,
+  minStopDuration: 60,
+};
+
+export interface TrackStatsOptions {
+  stopDetection?: StopDetectionOptions;
+  elevationSmoothing?: ElevationSmoothingOptions;
+}
+
+// Max speed is measured over a short window so single-fix GPS jumps don't dominate it
+const MAX_SPEED_WINDOW_SECONDS = 5;
+
+export function calculateTrackStats(segments: TrackSegment[], options: TrackStatsOptions = {}): TrackStats {
+  const stopDetection = options.stopDetection ?? DEFAULT_STOP_DETECTION;
+  const elevationSmoothing = options.elevationSmoothing ?? DEFAULT_ELEVATION_SMOOTHING;
+  let totalDistance = 0;
+  let elevationGain = 0;
+  let elevationLoss = 0;
+  let rawElevationGain = 0;
+  let rawElevationLoss = 0;
+  let minElevation = Infinity;
+  let maxElevation = -Infinity;
+  let startTime: Date | undefined;
+  let endTime: Date | undefined;
+  const heartRate = createChannelSummary();
+  const cadence = createChannelSummary();
+  const power = createChannelSummary();
+  const temperature = createChannelSummary();
+
+  segments.forEach(segment => {
+    const elevations: number[] = [];
+
+    for (let i = 0; i < segment.points.length; i++) {
+      const point = segment.points[i];
+      
+      addToChannelSummary(heartRate, point.heartRate);
+      addToChannelSummary(cadence, point.cadence);
+      addToChannelSummary(power, point.power);
+      addToChannelSummary(temperature, point.temperature);
+
+      if (point.ele !== undefined) {
+        elevations.push(point.ele);
+        minElevation = Math.min(minElevation, point.ele);
+        maxElevation = Math.max(maxElevation, point.ele);
+      }
+
+      if (point.time) {
+        if (!startTime || point.time < startTime) {
+          startTime = point.time;
+        }
+        if (!endTime || point.time > endTime) {
+          endTime = point.time;
+        }
+      }
+
+      if (i > 0) {
+        const prevPoint = segment.points[i - 1];
+        
+        const distance = calculateDistance(
+          prevPoint.lat, prevPoint.lon,
+          point.lat, point.lon
+        );
+        totalDistance += distance;
+
+        if (point.ele !== undefined && prevPoint.ele !== undefined) {
+          const elevDiff = point.ele - prevPoint.ele;
+          if (elevDiff > 0) {
+            rawElevationGain += elevDiff;
+          } else {
+            rawElevationLoss += Math.abs(elevDiff);
+          }
+        }
+      }
+    }
+
+    const smoothedChange = calculateElevationChange(
+      smoothElevations(elevations, elevationSmoothing),
+      elevationSmoothing.hysteresis
+    );
+    elevationGain += smoothedChange.gain;
+    elevationLoss += smoothedChange.loss;
+  });
+
+  const duration = startTime && endTime 
+    ? (endTime.getTime() - startTime.getTime()) / 1000
+    : undefined;
+
+  const motion = analyzeMotion(segments, stopDetection);
+
+  return {
+    distance: totalDistance,
+    elevationGain,
+    elevationLoss,
+    rawElevationGain,
+    rawElevationLoss,
+    minElevation: minElevation === Infinity ? 0 : minElevation,
+    maxElevation: maxElevation === -Infinity ? 0 : maxElevation,
+    duration,
+    ...motion,
+    averageHeartRate: getChannelAverage(heartRate),
+    maxHeartRate: getChannelMax(heartRate),
+    averageCadence: getChannelAverage(cadence),
+    maxCadence: getChannelMax(cadence),
+    averagePower: getChannelAverage(power),
+    maxPower: getChannelMax(power),
+    averageTemperature: getChannelAverage(temperature),
+    maxTemperature: getChannelMax(temperature),
+  };
+}
+
+type MotionStats = Pick<TrackStats, 'movingTime' | 'averageMovingSpeed' | 'maxSpeed' | 'averagePace' | 'stops'>;
+
+function analyzeMotion(segments: TrackSegment[], options: StopDetectionOptions): MotionStats {
+  let movingTime = 0;
+  let movingDistance = 0;
+  let maxSpeed = 0;
+  let hasTimedIntervals = false;
+  const stops: TrackStop[] = [];
+
+  segments.forEach(segment => {
+    const points = segment.points.filter((point): point is TrackPoint & { time: Date } => !!point.time);
+    const cumulativeDistance: number[] = [0];
+    let windowStart = 0;
+    let slowTime = 0;
+    let slowDistance = 0;
+    let slowStartIndex = -1;
+
+    // A slow stretch becomes a stop only once it has lasted long enough
+    const closeSlowStretch = (endIndex: number) => {
+      if (slowStartIndex < 0) return;
+      if (slowTime >= options.minStopDuration) {
+        const startPoint = points[slowStartIndex];
+        stops.push({
+          lat: startPoint.lat,
+          lon: startPoint.lon,
+          startTime: startPoint.time,
+          endTime: points[endIndex].time,
+          duration: slowTime,
+        });
+      } else {
+        movingTime += slowTime;
+        movingDistance += slowDistance;
+      }
+      slowTime = 0;
+      slowDistance = 0;
+      slowStartIndex = -1;
+    };
+
+    for (let i = 1; i < points.length; i++) {
+      const prevPoint = points[i - 1];
+      const point = points[i];
+      const distance = calculateDistance(prevPoint.lat, prevPoint.lon, point.lat, point.lon);
+      const elapsed = (point.time.getTime() - prevPoint.time.getTime()) / 1000;
+      cumulativeDistance.push(cumulativeDistance[i - 1] + distance);
+
+      if (elapsed <= 0) continue;
+      hasTimedIntervals = true;
+
+      if (distance / elapsed < options.speedThreshold) {
+        if (slowStartIndex < 0) slowStartIndex = i - 1;
+        slowTime += elapsed;
+        slowDistance += distance;
+      } else {
+        closeSlowStretch(i - 1);
+        movingTime += elapsed;
+        movingDistance += distance;
+      }
+
+      while (
+        windowStart < i - 1 &&
+        (point.time.getTime() - points[windowStart + 1].time.getTime()) / 1000 >= MAX_SPEED_WINDOW_SECONDS
+      ) {
+        windowStart++;
+      }
+      const windowTime = (point.time.getTime() - points[windowStart].time.getTime()) / 1000;
+      if (windowTime >= MAX_SPEED_WINDOW_SECONDS) {
+        maxSpeed = Math.max(maxSpeed, (cumulativeDistance[i] - cumulativeDistance[windowStart]) / windowTime);
+      }
+    }
+
+    closeSlowStretch(points.length - 1);
+  });
+
+  if (!hasTimedIntervals) {
+    return {};
+  }
+
+  const averageMovingSpeed = movingTime > 0 ? movingDistance / movingTime : undefined;
+  return {
+    movingTime,
+    averageMovingSpeed,
+    maxSpeed: maxSpeed > 0 ? maxSpeed : undefined,
+    averagePace: averageMovingSpeed ? 1000 / averageMovingSpeed : undefined,
+    stops,
+  };
+}
+
+interface ChannelSummary {
+  sum: number;
+  count: number;
+  max: number;
+}
+
+function createChannelSummary(): ChannelSummary {
+  return { sum: 0, count: 0, max: -Infinity };
+}
+
+function addToChannelSummary(summary: ChannelSummary, value?: number) {
+  if (value === undefined) return;
+  summary.sum += value;
+  summary.count++;
+  summary.max = Math.max(summary.max, value);
+}
+
+function getChannelAverage(summary: ChannelSummary): number | undefined {
+  return summary.count > 0 ? summary.sum / summary.count : undefined;
+}
+
+function getChannelMax(summary: ChannelSummary): number | undefined {
+  return summary.count > 0 ? summary.max : undefined;
+}
+
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lon2 - lon1) * Math.PI / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
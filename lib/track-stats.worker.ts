@@ -0,0 +1,27 @@
+import { TrackSegment, TrackStats } from '@/types/track';
+import { calculateTrackStats, TrackStatsOptions } from '@/lib/track-stats';
+
+export interface TrackStatsWorkerRequest {
+  tracks: TrackSegment[][];
+  options: TrackStatsOptions;
+}
+
+export type TrackStatsWorkerResponse =
+  | { type: 'result'; stats: TrackStats[] }
+  | { type: 'error'; message: string };
+
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<TrackStatsWorkerRequest>) => {
+  const { tracks, options } = event.data;
+
+  try {
+    const stats = tracks.map(segments => calculateTrackStats(segments, options));
+    context.postMessage({ type: 'result', stats } satisfies TrackStatsWorkerResponse);
+  } catch (error) {
+    context.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to calculate track stats',
+    } satisfies TrackStatsWorkerResponse);
+  }
+};
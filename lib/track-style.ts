@@ -0,0 +1,9 @@
+import { TrackStyle } from '@/types/track';
+
+// Style of newly loaded tracks; files may override parts of it
+export const DEFAULT_TRACK_STYLE: TrackStyle = {
+  color: '#E53E3E',
+  width: 3,
+  opacity: 1,
+  lineStyle: 'solid',
+};
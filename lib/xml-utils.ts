@@ -0,0 +1,29 @@
+export function getDescendants(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+export function getChildren(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+export function getChildText(parent: Element, localName: string): string | undefined {
+  return getChildren(parent, localName)[0]?.textContent?.trim() || undefined;
+}
+
+export function getChildNumber(parent: Element, localName: string): number | undefined {
+  const text = getChildText(parent, localName);
+  const value = text !== undefined ? Number(text) : NaN;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+export function parseXMLDocument(text: string, formatName: string): Document {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error(`${formatName} Parser not available`);
+  }
+
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid ${formatName} file`);
+  }
+  return doc;
+}
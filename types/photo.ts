@@ -1,19 +1,32 @@
 export interface PhotoLocation {
   lat: number;
   lon: number;
+  ele?: number;
 }
 
 export interface Photo {
   id: string;
   name: string;
-  dataUrl: string;
-  thumbnailUrl?: string | null;
+  // The original file; full-size images are only read from it when shown or exported
+  file: File;
+  thumbnail?: Blob | null;
   location: PhotoLocation | null;
+  // Location read from the file, so exports can leave photos that weren't moved untouched
+  originalLocation: PhotoLocation | null;
   timestamp?: Date;
+  // Capture time lined up with GPS time when geotagged from a track. The camera's own
+  // timestamp has no reliable time zone, so only this is written as the GPS time.
+  gpsTime?: Date;
   visible: boolean;
   size: number;
 }
 
+export interface PhotoLocationUpdate {
+  photoId: string;
+  location: PhotoLocation;
+  gpsTime?: Date;
+}
+
 export interface PhotoMetadata {
   location: PhotoLocation | null;
   timestamp?: Date;
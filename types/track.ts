@@ -1,8 +1,14 @@
+import { Waypoint } from './waypoint';
+
 export interface TrackPoint {
   lat: number;
   lon: number;
   ele?: number;
   time?: Date;
+  heartRate?: number;
+  cadence?: number;
+  power?: number;
+  temperature?: number;
 }
 
 export interface TrackSegment {
@@ -16,6 +22,15 @@ export interface Track {
   style: TrackStyle;
   visible: boolean;
   stats?: TrackStats;
+  laps?: TrackLap[];
+}
+
+export interface TrackLap {
+  startTime?: Date;
+  duration?: number;
+  distance?: number;
+  averageHeartRate?: number;
+  maxHeartRate?: number;
 }
 
 export interface TrackStyle {
@@ -23,15 +38,58 @@ export interface TrackStyle {
   width: number;
   opacity: number;
   lineStyle: 'solid' | 'dashed' | 'dotted';
+  colorBy?: TrackColorMetric;
+  colorRamp?: ColorRampName;
+  // Render-only simplification; the track's own points are left untouched
+  simplification?: TrackSimplification;
 }
 
+export interface TrackSimplification {
+  method: 'douglasPeucker' | 'visvalingam';
+  tolerance: number;
+}
+
+export type TrackColorMetric = 'speed' | 'elevation' | 'gradient' | 'heartRate' | 'time';
+
+export type ColorRampName = 'viridis' | 'heat' | 'redYellowGreen' | 'blueRed';
+
 export interface TrackStats {
   distance: number;
   elevationGain: number;
   elevationLoss: number;
+  // Unsmoothed point-to-point sums, kept for comparison with the smoothed totals
+  rawElevationGain: number;
+  rawElevationLoss: number;
   minElevation: number;
   maxElevation: number;
   duration?: number;
+  movingTime?: number;
+  // Speeds are in m/s and pace in seconds per kilometre
+  averageMovingSpeed?: number;
+  maxSpeed?: number;
+  averagePace?: number;
+  stops?: TrackStop[];
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+  averageCadence?: number;
+  maxCadence?: number;
+  averagePower?: number;
+  maxPower?: number;
+  averageTemperature?: number;
+  maxTemperature?: number;
+}
+
+export interface TrackStop {
+  lat: number;
+  lon: number;
+  startTime: Date;
+  endTime: Date;
+  duration: number;
+}
+
+export interface ParsedTrackFile {
+  tracks: Track[];
+  waypoints: Waypoint[];
 }
 
 export interface MapViewState {
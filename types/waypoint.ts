@@ -0,0 +1,11 @@
+export interface Waypoint {
+  id: string;
+  name?: string;
+  description?: string;
+  symbol?: string;
+  lat: number;
+  lon: number;
+  ele?: number;
+  time?: Date;
+  visible: boolean;
+}